@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+import { Hono } from "hono";
+import { HTTPException } from "hono/http-exception";
+import { requireApiKey } from "./auth";
+
+// Keys come from API_KEYS in test-setup.ts.
+const app = new Hono();
+app.use("*", requireApiKey);
+app.get("/health", (c) => c.text("ok"));
+app.get("/themes", (c) => c.text("ok"));
+app.get("/pdf/info", (c) => c.text("ok"));
+app.onError((err, c) =>
+  err instanceof HTTPException ? err.getResponse() : c.text("error", 500)
+);
+
+const get = (path: string, key?: string) =>
+  app.request(path, {
+    headers: key ? { Authorization: `Bearer ${key}` } : {},
+  });
+
+describe("requireApiKey", () => {
+  test("public routes need no key", async () => {
+    expect((await get("/health")).status).toBe(200);
+  });
+
+  test("401 without a key or with an unknown one", async () => {
+    const missing = await get("/themes");
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("WWW-Authenticate")).toBe("Bearer");
+    expect((await get("/themes", "nope")).status).toBe(401);
+  });
+
+  test("accepts X-API-Key as well as a bearer token", async () => {
+    const res = await app.request("/themes", {
+      headers: { "X-API-Key": "all-key" },
+    });
+    expect(res.status).toBe(200);
+  });
+
+  test("403 when the key lacks the route's scope", async () => {
+    expect((await get("/pdf/info", "pdf-key")).status).toBe(200);
+    const res = await get("/themes", "pdf-key");
+    expect(res.status).toBe(403);
+    expect(await res.text()).toContain('"pdf-only"');
+  });
+
+  test("429 once the key's rate limit is used up", async () => {
+    const first = await get("/themes", "limited-key");
+    expect(first.status).toBe(200);
+    expect(first.headers.get("X-RateLimit-Remaining")).toBe("1");
+    expect((await get("/themes", "limited-key")).status).toBe(200);
+
+    const limited = await get("/themes", "limited-key");
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("X-RateLimit-Remaining")).toBe("0");
+    expect(Number(limited.headers.get("Retry-After"))).toBeGreaterThan(0);
+    // Other keys have their own windows.
+    expect((await get("/themes", "all-key")).status).toBe(200);
+  });
+});
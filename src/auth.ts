@@ -0,0 +1,393 @@
+// src/auth.ts
+import { createHash } from "crypto";
+import { stat } from "fs/promises";
+import { createMiddleware } from "hono/factory";
+import { HTTPException } from "hono/http-exception";
+import { ConvertOutput, isRecord } from "./convert";
+import { currentRequestId, logJson } from "./logging";
+import { describeOutput } from "./webhooks";
+
+/* ------------------------------- Constants -------------------------------- */
+// Keys come from API_KEYS (JSON array of entries, or comma-separated bare
+// keys with every scope) and/or API_KEYS_FILE (JSON, re-read when it
+// changes). With neither set the API stays open, as before.
+export const API_KEYS_FILE = process.env.API_KEYS_FILE || "";
+export const AUTH_ENABLED = !!(process.env.API_KEYS || API_KEYS_FILE);
+
+// Defaults for keys that don't set their own rateLimit; 0 = unlimited.
+export const RATE_LIMIT_REQUESTS = Number(
+  process.env.RATE_LIMIT_REQUESTS || 60
+);
+export const RATE_LIMIT_WINDOW_SECS = Number(
+  process.env.RATE_LIMIT_WINDOW_SECS || 60
+);
+
+// Comma-separated origins allowed to call the API from a browser.
+export const CORS_ORIGINS = (process.env.CORS_ORIGINS || "*")
+  .split(",")
+  .map((o) => o.trim().replace(/\/+$/, ""))
+  .filter(Boolean);
+
+export const SCOPES = [
+  "convert",
+  "render",
+  "pdf",
+  "jobs",
+  "metrics",
+  "admin",
+] as const;
+
+// Routes anyone may call; every other route needs a key once keys exist.
+const PUBLIC_PATHS = new Set(["/", "/health"]);
+
+const ROUTE_SCOPES: [RegExp, Scope][] = [
+  [/^\/(api\/)?convert(\/|$)/, "convert"],
+  [/^\/themes$/, "convert"],
+  [/^\/render\//, "render"],
+  [/^\/templates$/, "render"],
+  [/^\/pdf\//, "pdf"],
+  [/^\/jobs(\/|$)/, "jobs"],
+  [/^\/metrics$/, "metrics"],
+  [/^\/admin\//, "admin"],
+];
+
+/* --------------------------------- Types ---------------------------------- */
+export type Scope = (typeof SCOPES)[number];
+
+export type ApiKey = {
+  /** Names the key in usage and logs; the secret itself is never kept. */
+  id: string;
+  scopes: Scope[] | "*";
+  rateLimit: { requests: number; windowSecs: number };
+  /** Per UTC day, counted on the documents the key's requests produce. */
+  quota: { bytes?: number; pages?: number };
+};
+
+export type AuthEnv = {
+  Variables: { output: ConvertOutput; apiKey: ApiKey };
+};
+
+/* ------------------------------ Key config -------------------------------- */
+const isScope = (v: unknown): v is Scope => SCOPES.includes(v as Scope);
+
+const hashKey = (key: string) => createHash("sha256").update(key).digest("hex");
+
+function positive(v: unknown, what: string) {
+  if (v === undefined) return undefined;
+  if (typeof v !== "number" || !Number.isFinite(v) || v < 0)
+    throw new Error(`${what} must be a non-negative number.`);
+  return v;
+}
+
+/** An optional nested object such as rateLimit; absent reads as empty. */
+function section(v: unknown, what: string): Record<string, unknown> {
+  if (v === undefined) return {};
+  if (!isRecord(v)) throw new Error(`${what} must be an object.`);
+  return v;
+}
+
+/**
+ * One key entry: { id, key | keySha256, scopes?, rateLimit?, quota? }.
+ * A bare string is a key with every scope and the default limits.
+ */
+function parseKeyEntry(raw: unknown, where: string): [string, ApiKey] {
+  if (typeof raw === "string") {
+    const hash = hashKey(raw);
+    return [
+      hash,
+      {
+        id: `key-${hash.slice(0, 8)}`,
+        scopes: "*",
+        rateLimit: {
+          requests: RATE_LIMIT_REQUESTS,
+          windowSecs: RATE_LIMIT_WINDOW_SECS,
+        },
+        quota: {},
+      },
+    ];
+  }
+  if (!isRecord(raw))
+    throw new Error(`${where}: every key must be a string or an object.`);
+  const e = raw;
+  if (typeof e.id !== "string" || !/^[\w.-]+$/.test(e.id))
+    throw new Error(
+      `${where}: every key needs an id (letters, digits, . _ -).`
+    );
+  const at = `${where}: key "${e.id}"`;
+
+  let hash: string;
+  if (typeof e.key === "string" && e.key) hash = hashKey(e.key);
+  else if (
+    typeof e.keySha256 === "string" &&
+    /^[0-9a-f]{64}$/i.test(e.keySha256)
+  )
+    hash = e.keySha256.toLowerCase();
+  else throw new Error(`${at} needs "key" or a hex "keySha256".`);
+
+  let scopes: ApiKey["scopes"] = "*";
+  if (e.scopes !== undefined && e.scopes !== "*") {
+    if (!Array.isArray(e.scopes) || !e.scopes.every(isScope))
+      throw new Error(
+        `${at}: scopes must be "*" or a list of ${SCOPES.join(", ")}.`
+      );
+    scopes = e.scopes;
+  }
+  const rateLimit = section(e.rateLimit, `${at} rateLimit`);
+  const quota = section(e.quota, `${at} quota`);
+
+  return [
+    hash,
+    {
+      id: e.id,
+      scopes,
+      rateLimit: {
+        requests:
+          positive(rateLimit.requests, `${at} rateLimit.requests`) ??
+          RATE_LIMIT_REQUESTS,
+        windowSecs: Math.max(
+          1,
+          positive(rateLimit.windowSecs, `${at} rateLimit.windowSecs`) ??
+            RATE_LIMIT_WINDOW_SECS
+        ),
+      },
+      quota: {
+        bytes: positive(quota.bytes, `${at} quota.bytes`) || undefined,
+        pages: positive(quota.pages, `${at} quota.pages`) || undefined,
+      },
+    },
+  ];
+}
+
+function parseKeys(text: string, where: string): Map<string, ApiKey> {
+  const trimmed = text.trim();
+  let entries: unknown;
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      entries = JSON.parse(trimmed);
+    } catch {
+      throw new Error(`${where} is not valid JSON.`);
+    }
+    if (entries && !Array.isArray(entries))
+      entries = (entries as { keys?: unknown }).keys;
+    if (!Array.isArray(entries))
+      throw new Error(
+        `${where} must be an array of keys or { "keys": [...] }.`
+      );
+  } else
+    entries = trimmed
+      .split(",")
+      .map((k) => k.trim())
+      .filter(Boolean);
+
+  const keys = new Map<string, ApiKey>();
+  const ids = new Set<string>();
+  for (const raw of entries as unknown[]) {
+    const [hash, key] = parseKeyEntry(raw, where);
+    if (ids.has(key.id))
+      throw new Error(`${where}: duplicate key id "${key.id}".`);
+    ids.add(key.id);
+    keys.set(hash, key);
+  }
+  return keys;
+}
+
+let envKeys: Map<string, ApiKey> | null = null;
+let fileKeys = { mtimeMs: -1, keys: new Map<string, ApiKey>() };
+let currentKeys = new Map<string, ApiKey>();
+
+function keepingPreviousKeys(err: unknown) {
+  logJson(
+    "WARNING",
+    `Keeping the previous API keys: ${(err as Error).message}`,
+    { requestId: currentRequestId(), keysFile: API_KEYS_FILE }
+  );
+}
+
+/**
+ * All configured keys, by SHA-256 of the key. The file is re-read when its
+ * mtime changes; a bad edit, or a file that can't be read for a moment,
+ * keeps the previous keys (and is logged), but a bad config at startup
+ * throws so the process fails fast.
+ */
+export async function loadApiKeys(): Promise<Map<string, ApiKey>> {
+  envKeys ??= parseKeys(process.env.API_KEYS || "", "API_KEYS");
+  const keys = new Map(envKeys);
+  if (API_KEYS_FILE) {
+    const mtimeMs = await stat(API_KEYS_FILE).then(
+      (s) => s.mtimeMs,
+      (err) => {
+        if (fileKeys.mtimeMs < 0) throw err;
+        keepingPreviousKeys(err);
+        return fileKeys.mtimeMs;
+      }
+    );
+    if (mtimeMs !== fileKeys.mtimeMs) {
+      let parsed: Map<string, ApiKey>;
+      try {
+        parsed = parseKeys(await Bun.file(API_KEYS_FILE).text(), API_KEYS_FILE);
+      } catch (err) {
+        if (fileKeys.mtimeMs < 0) throw err;
+        keepingPreviousKeys(err);
+        parsed = fileKeys.keys;
+      }
+      fileKeys = { mtimeMs, keys: parsed };
+    }
+    for (const [hash, key] of fileKeys.keys) keys.set(hash, key);
+  }
+  return (currentKeys = keys);
+}
+
+/* ------------------------------ Rate limits ------------------------------- */
+// Fixed windows per key id, kept in memory (per process).
+const windows = new Map<string, { count: number; resetAt: number }>();
+
+/** Count a request against the key's window; 429 once it's used up. */
+function takeRequest(key: ApiKey): Record<string, string> {
+  const { requests, windowSecs } = key.rateLimit;
+  if (!requests) return {};
+  const now = Date.now();
+  let w = windows.get(key.id);
+  if (!w || w.resetAt <= now) {
+    w = { count: 0, resetAt: now + windowSecs * 1000 };
+    windows.set(key.id, w);
+  }
+  const resetSecs = Math.max(1, Math.ceil((w.resetAt - now) / 1000));
+  const headers = {
+    "X-RateLimit-Limit": String(requests),
+    "X-RateLimit-Remaining": String(Math.max(0, requests - w.count - 1)),
+    "X-RateLimit-Reset": String(resetSecs),
+  };
+  if (w.count >= requests)
+    throw new HTTPException(429, {
+      message: `Rate limit exceeded: ${requests} requests per ${windowSecs}s.`,
+      res: new Response(null, {
+        headers: {
+          ...headers,
+          "X-RateLimit-Remaining": "0",
+          "Retry-After": String(resetSecs),
+        },
+      }),
+    });
+  w.count++;
+  return headers;
+}
+
+/* -------------------------------- Quotas ---------------------------------- */
+type Usage = { day: string; bytes: number; pages: number };
+const usage = new Map<string, Usage>();
+
+function usageFor(id: string): Usage {
+  const day = new Date().toISOString().slice(0, 10);
+  let u = usage.get(id);
+  if (!u || u.day !== day) {
+    u = { day, bytes: 0, pages: 0 };
+    usage.set(id, u);
+  }
+  return u;
+}
+
+function secondsUntilUtcMidnight() {
+  const now = new Date();
+  const midnight = Date.UTC(
+    now.getUTCFullYear(),
+    now.getUTCMonth(),
+    now.getUTCDate() + 1
+  );
+  return Math.ceil((midnight - now.getTime()) / 1000);
+}
+
+function quotaHeaders(key: ApiKey): Record<string, string> {
+  const u = usageFor(key.id);
+  const headers: Record<string, string> = {};
+  if (key.quota.bytes)
+    headers["X-Quota-Bytes-Remaining"] = String(
+      Math.max(0, key.quota.bytes - u.bytes)
+    );
+  if (key.quota.pages)
+    headers["X-Quota-Pages-Remaining"] = String(
+      Math.max(0, key.quota.pages - u.pages)
+    );
+  return headers;
+}
+
+/** 429 once today's bytes or pages are used up (the last job may overshoot). */
+function checkQuota(key: ApiKey) {
+  const u = usageFor(key.id);
+  const over =
+    (key.quota.bytes && u.bytes >= key.quota.bytes && "bytes") ||
+    (key.quota.pages && u.pages >= key.quota.pages && "pages");
+  if (over)
+    throw new HTTPException(429, {
+      message: `Daily ${over} quota of ${key.quota[over]} exhausted; it resets at 00:00 UTC.`,
+      res: new Response(null, {
+        headers: {
+          ...quotaHeaders(key),
+          "Retry-After": String(secondsUntilUtcMidnight()),
+        },
+      }),
+    });
+}
+
+/**
+ * Charge a finished document to a key's daily usage. Pages are only counted
+ * (which means parsing the PDF) for keys with a page quota.
+ */
+export async function recordUsage(
+  keyId: string,
+  out: { path: string; mime: string }
+) {
+  const key = [...currentKeys.values()].find((k) => k.id === keyId);
+  const u = usageFor(keyId);
+  if (key?.quota.pages) {
+    const { size, pages } = await describeOutput(out.path, out.mime);
+    u.bytes += size;
+    u.pages += pages ?? 0;
+  } else u.bytes += Bun.file(out.path).size;
+}
+
+/* ------------------------------- Middleware ------------------------------- */
+function scopeFor(path: string): Scope | "*" | null {
+  if (PUBLIC_PATHS.has(path)) return null;
+  return ROUTE_SCOPES.find(([re]) => re.test(path))?.[1] ?? "*";
+}
+
+function presentedKey(c: any): string | null {
+  const auth = c.req.header("authorization") || "";
+  const bearer = /^Bearer\s+(.+)$/i.exec(auth)?.[1];
+  return bearer?.trim() || c.req.header("x-api-key")?.trim() || null;
+}
+
+/**
+ * Requires a key with the route's scope (401 without a valid key, 403 when
+ * it lacks the scope), applies its rate limit and daily quota (429), and
+ * charges whatever the route produced to the key.
+ */
+export const requireApiKey = createMiddleware<AuthEnv>(async (c, next) => {
+  const scope = scopeFor(c.req.path);
+  if (!AUTH_ENABLED || !scope) return next();
+
+  const keys = await loadApiKeys();
+  const presented = presentedKey(c);
+  const key = presented ? keys.get(hashKey(presented)) : undefined;
+  if (!key)
+    throw new HTTPException(401, {
+      message: presented
+        ? "Invalid API key."
+        : "Missing API key: send Authorization: Bearer <key> or X-API-Key.",
+      res: new Response(null, { headers: { "WWW-Authenticate": "Bearer" } }),
+    });
+  if (key.scopes !== "*" && (scope === "*" || !key.scopes.includes(scope)))
+    throw new HTTPException(403, {
+      message: `API key "${key.id}" is not allowed to use ${c.req.path}.`,
+    });
+
+  checkQuota(key);
+  const headers = takeRequest(key);
+  c.set("apiKey", key);
+  await next();
+
+  const out = c.get("output");
+  if (out && !c.error) await recordUsage(key.id, out);
+  for (const [k, v] of Object.entries({ ...headers, ...quotaHeaders(key) }))
+    c.res.headers.set(k, v);
+});
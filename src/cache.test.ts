@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, test, setSystemTime } from "bun:test";
+import { cacheKey } from "./cache";
+import { convertDetected } from "./convert";
+import { parseConvertOptions } from "./options";
+import { TempWorkspace, runInWorkspace } from "./workspace";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe("cacheKey", () => {
+  const bytes = encode("hello");
+
+  test("ignores key order and undefined members", () => {
+    expect(cacheKey(bytes, { a: 1, b: { c: 2, d: 3 } })).toBe(
+      cacheKey(bytes, { b: { d: 3, c: 2 }, a: 1, e: undefined })
+    );
+  });
+
+  test("changes with the input bytes or any part", () => {
+    const key = cacheKey(bytes, { a: 1, b: [1, 2] });
+    expect(cacheKey(encode("hello!"), { a: 1, b: [1, 2] })).not.toBe(key);
+    expect(cacheKey(bytes, { a: 2, b: [1, 2] })).not.toBe(key);
+    expect(cacheKey(bytes, { a: 1, b: [2, 1] })).not.toBe(key);
+    expect(cacheKey(bytes, { a: 1, b: [1, 2], c: null })).not.toBe(key);
+  });
+});
+
+describe("conversion cache", () => {
+  afterEach(() => setSystemTime());
+
+  // Plain text renders with pdf-lib alone, so no external tools are needed.
+  async function convertOutput(
+    text: string,
+    fields: Record<string, unknown> = {},
+    ifNoneMatch?: string
+  ) {
+    const ws = new TempWorkspace();
+    try {
+      return await runInWorkspace(ws, () =>
+        convertDetected({
+          bytes: encode(text),
+          filename: "note.txt",
+          options: parseConvertOptions(fields),
+          ifNoneMatch,
+        })
+      );
+    } finally {
+      await ws.cleanup();
+    }
+  }
+  const convert = async (text: string, fields?: Record<string, unknown>) =>
+    (await convertOutput(text, fields)).cache;
+
+  test("repeats hit; other options miss", async () => {
+    const text = `cache test ${crypto.randomUUID()}`;
+    const first = await convert(text);
+    expect(first?.hit).toBe(false);
+    expect(await convert(text)).toEqual({ key: first!.key, hit: true });
+
+    const landscape = await convert(text, { orientation: "landscape" });
+    expect(landscape?.hit).toBe(false);
+    expect(landscape?.key).not.toBe(first!.key);
+  });
+
+  test("a matching If-None-Match skips the conversion", async () => {
+    const text = `conditional ${crypto.randomUUID()}`;
+    const { key } = (await convert(text))!;
+    const out = await convertOutput(text, {}, `W/"other", "${key}"`);
+    expect(out.notModified).toBe(true);
+    expect(out.path).toBe("");
+
+    const other = await convertOutput(
+      text,
+      { orientation: "landscape" },
+      `"${key}"`
+    );
+    expect(other.notModified).toBeUndefined();
+    expect(other.cache?.hit).toBe(false);
+  });
+
+  test("{date} outputs miss once the day changes", async () => {
+    const text = `dated ${crypto.randomUUID()}`;
+    const fields = { footerCenter: "Printed {date}" };
+    setSystemTime(new Date("2026-03-01T12:00:00Z"));
+    const today = await convert(text, fields);
+    expect(today?.hit).toBe(false);
+    expect((await convert(text, fields))?.hit).toBe(true);
+
+    setSystemTime(new Date("2026-03-02T12:00:00Z"));
+    expect((await convert(text, fields))?.hit).toBe(false);
+    // Outputs without {date} keep their entry.
+    setSystemTime(new Date("2026-03-01T12:00:00Z"));
+    const undated = await convert(text);
+    setSystemTime(new Date("2026-03-02T12:00:00Z"));
+    expect((await convert(text))?.key).toBe(undated!.key);
+  });
+});
@@ -0,0 +1,210 @@
+// src/cache.ts
+import { createHash } from "crypto";
+import {
+  copyFile,
+  link,
+  mkdir,
+  readdir,
+  rename,
+  rm,
+  stat,
+  utimes,
+} from "fs/promises";
+import { tmpdir } from "os";
+import { basename, join } from "path";
+import { currentRequestId, logJson } from "./logging";
+import { recordCacheLookup, registerGauge } from "./metrics";
+import { tempPath } from "./workspace";
+
+/* ------------------------------- Constants -------------------------------- */
+export const CACHE_DIR =
+  process.env.CACHE_DIR || join(tmpdir(), "brightline-cache");
+// Least recently used entries are evicted beyond this; 0 disables the cache.
+export const CACHE_MAX_BYTES = Number(
+  process.env.CACHE_MAX_BYTES ?? 1024 * 1024 * 1024
+);
+// Bump when converters change what they produce, so old entries stop matching.
+const CACHE_VERSION = 2;
+
+/* --------------------------------- Types ---------------------------------- */
+export type CachedOutput = {
+  path: string;
+  filename: string;
+  mime: string;
+  warnings?: string[];
+};
+
+type CacheMeta = Omit<CachedOutput, "path"> & { createdAt: string };
+
+/* ---------------------------------- Keys ---------------------------------- */
+const sha256 = (data: string | Uint8Array) =>
+  createHash("sha256").update(data).digest("hex");
+
+/** JSON with sorted keys and no undefined members, so equal values match. */
+function stableJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .sort()
+      .filter((k) => record[k] !== undefined)
+      .map((k) => `${JSON.stringify(k)}:${stableJson(record[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/** Hash of the input bytes plus everything else that shapes the output. */
+export function cacheKey(bytes: Uint8Array, parts: Record<string, unknown>) {
+  return sha256(`${CACHE_VERSION}\n${sha256(bytes)}\n${stableJson(parts)}`);
+}
+
+/* ---------------------------------- Index --------------------------------- */
+// Entry sizes in LRU order (Map insertion order, oldest first); a hit moves
+// the entry to the end. Rebuilt from file mtimes on the first lookup.
+const index = new Map<string, number>();
+let totalBytes = 0;
+let loading: Promise<void> | null = null;
+const counts = { hits: 0, misses: 0, evictions: 0 };
+
+const dataPath = (key: string) => join(CACHE_DIR, `${key}.out`);
+const metaPath = (key: string) => join(CACHE_DIR, `${key}.json`);
+
+function loadIndex() {
+  return (loading ??= (async () => {
+    await mkdir(CACHE_DIR, { recursive: true });
+    const found: { key: string; size: number; used: number }[] = [];
+    for (const name of await readdir(CACHE_DIR)) {
+      if (!name.endsWith(".json")) continue;
+      const key = basename(name, ".json");
+      const [meta, data] = await Promise.all([
+        stat(metaPath(key)).catch(() => null),
+        stat(dataPath(key)).catch(() => null),
+      ]);
+      if (meta && data)
+        found.push({ key, size: data.size, used: meta.mtimeMs });
+    }
+    found.sort((a, b) => a.used - b.used);
+    for (const { key, size } of found) {
+      index.set(key, size);
+      totalBytes += size;
+    }
+  })());
+}
+
+async function remove(key: string) {
+  totalBytes -= index.get(key) ?? 0;
+  index.delete(key);
+  await Promise.all([
+    rm(metaPath(key), { force: true }),
+    rm(dataPath(key), { force: true }),
+  ]);
+}
+
+async function evict() {
+  for (const key of index.keys()) {
+    if (totalBytes <= CACHE_MAX_BYTES) break;
+    await remove(key);
+    counts.evictions++;
+  }
+}
+
+/* ---------------------------------- Cache --------------------------------- */
+/**
+ * The stored output for `key` as a scratch file of the current workspace
+ * (a hard link where possible, so eviction can't pull it from under a
+ * response being streamed), or null on a miss.
+ */
+export async function cacheGet(key: string): Promise<CachedOutput | null> {
+  if (!CACHE_MAX_BYTES) return null;
+  await loadIndex();
+  const size = index.get(key);
+  if (size !== undefined) {
+    try {
+      const meta = (await Bun.file(metaPath(key)).json()) as CacheMeta;
+      const path = tempPath(meta.filename);
+      await link(dataPath(key), path).catch(() =>
+        copyFile(dataPath(key), path)
+      );
+      index.delete(key);
+      index.set(key, size);
+      const now = new Date();
+      await utimes(metaPath(key), now, now).catch(() => {});
+      counts.hits++;
+      recordCacheLookup(true);
+      const { filename, mime, warnings } = meta;
+      return { path, filename, mime, warnings };
+    } catch {
+      await remove(key);
+    }
+  }
+  counts.misses++;
+  recordCacheLookup(false);
+  return null;
+}
+
+/** Store a finished output under `key`, then evict down to the size limit. */
+export async function cachePut(key: string, out: CachedOutput) {
+  if (!CACHE_MAX_BYTES) return;
+  await loadIndex();
+  const size = Bun.file(out.path).size;
+  if (size > CACHE_MAX_BYTES) return;
+
+  const tmp = `.${Math.random().toString(36).slice(2)}.tmp`;
+  const meta: CacheMeta = {
+    filename: out.filename,
+    mime: out.mime,
+    warnings: out.warnings,
+    createdAt: new Date().toISOString(),
+  };
+  try {
+    await copyFile(out.path, dataPath(key) + tmp);
+    await rename(dataPath(key) + tmp, dataPath(key));
+    await Bun.write(metaPath(key) + tmp, JSON.stringify(meta));
+    await rename(metaPath(key) + tmp, metaPath(key));
+  } catch (err) {
+    await rm(dataPath(key) + tmp, { force: true });
+    logJson(
+      "WARNING",
+      `Could not store cache entry ${key}: ${(err as Error).message}`,
+      { requestId: currentRequestId(), stack: (err as Error).stack }
+    );
+    return;
+  }
+  totalBytes += size - (index.get(key) ?? 0);
+  index.delete(key);
+  index.set(key, size);
+  await evict();
+}
+
+/** Drop every entry; returns what was removed. */
+export async function purgeCache() {
+  await loadIndex();
+  const removed = { entries: index.size, bytes: totalBytes };
+  await rm(CACHE_DIR, { recursive: true, force: true });
+  await mkdir(CACHE_DIR, { recursive: true });
+  index.clear();
+  totalBytes = 0;
+  return removed;
+}
+
+export async function cacheStats() {
+  if (CACHE_MAX_BYTES) await loadIndex();
+  return {
+    enabled: CACHE_MAX_BYTES > 0,
+    dir: CACHE_DIR,
+    maxBytes: CACHE_MAX_BYTES,
+    entries: index.size,
+    bytes: totalBytes,
+    ...counts,
+  };
+}
+
+registerGauge("cache_bytes", "Bytes held by the conversion cache.", () =>
+  Math.max(totalBytes, 0)
+);
+registerGauge(
+  "cache_entries",
+  "Entries in the conversion cache.",
+  () => index.size
+);
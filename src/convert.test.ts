@@ -0,0 +1,298 @@
+import { describe, expect, test } from "bun:test";
+import { Zippable, zipSync } from "fflate";
+import { PDFDocument } from "pdf-lib";
+import {
+  convertBatch,
+  convertDetected,
+  detectConverter,
+  orderZipEntries,
+  safeEntryPath,
+  unzipToMap,
+} from "./convert";
+import { parseConvertOptions } from "./options";
+import { TempWorkspace, runInWorkspace } from "./workspace";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+// Incompressible bytes, so size limits trip before the ratio check.
+function randomBytes(size: number) {
+  const out = new Uint8Array(size);
+  for (let i = 0; i < size; i += 65536)
+    crypto.getRandomValues(out.subarray(i, i + 65536));
+  return out;
+}
+
+const unzipStatus = (files: Zippable) =>
+  unzipToMap(zipSync(files)).then(
+    () => 200,
+    (err) => err.status
+  );
+
+describe("safeEntryPath", () => {
+  test.each(["../evil.txt", "a/../../evil.txt", "/etc/passwd", "C:/x.txt"])(
+    "rejects %s",
+    (name) => {
+      expect(() => safeEntryPath(name, "reject")).toThrow("Unsafe ZIP entry");
+    }
+  );
+
+  test.each(["..\\evil.txt", "\\evil.txt", "C:\\evil.txt"])(
+    "rejects backslash path %s",
+    (name) => {
+      expect(() => safeEntryPath(name, "reject")).toThrow("Unsafe ZIP entry");
+    }
+  );
+
+  test("normalizes separators and dot segments", () => {
+    expect(safeEntryPath("docs\\a.txt", "reject")).toBe("docs/a.txt");
+    expect(safeEntryPath("./docs//b/", "reject")).toBe("docs/b/");
+    expect(safeEntryPath("../../etc/passwd", "normalize")).toBe("etc/passwd");
+    expect(safeEntryPath("C:\\x\\..\\y.txt", "normalize")).toBe("y.txt");
+    expect(safeEntryPath("./", "reject")).toBeNull();
+  });
+});
+
+describe("unzipToMap", () => {
+  test("reads a well-formed archive", async () => {
+    const map = await unzipToMap(
+      zipSync({ "a.txt": encode("a"), "dir/b.txt": encode("b") })
+    );
+    expect([...map.keys()].sort()).toEqual(["a.txt", "dir/b.txt"]);
+    expect(new TextDecoder().decode(map.get("dir/b.txt"))).toBe("b");
+  });
+
+  test("422 for traversal, absolute and backslash entry names", async () => {
+    expect(await unzipStatus({ "../evil.txt": encode("x") })).toBe(422);
+    expect(await unzipStatus({ "/etc/passwd": encode("x") })).toBe(422);
+    expect(await unzipStatus({ "..\\evil.txt": encode("x") })).toBe(422);
+  });
+
+  test("413 for too many entries", async () => {
+    // ZIP_MAX_ENTRIES is 20 in test-setup.ts.
+    const files: Zippable = {};
+    for (let i = 0; i < 21; i++) files[`f${i}.txt`] = encode(`${i}`);
+    expect(await unzipStatus(files)).toBe(413);
+    delete files["f20.txt"];
+    expect(await unzipStatus(files)).toBe(200);
+  });
+
+  test("413 once the entries expand past the total limit", async () => {
+    // ZIP_MAX_UNCOMPRESSED_BYTES is 4MB in test-setup.ts.
+    const files: Zippable = {};
+    for (let i = 0; i < 5; i++)
+      files[`part${i}.bin`] = [randomBytes(1024 * 1024), { level: 0 }];
+    expect(await unzipStatus(files)).toBe(413);
+    await expect(unzipToMap(zipSync(files))).rejects.toThrow("expands to more");
+  });
+
+  test("422 for an entry over the compression ratio limit", async () => {
+    const bomb = new Uint8Array(3 * 1024 * 1024);
+    expect(await unzipStatus({ "bomb.txt": bomb })).toBe(422);
+    await expect(unzipToMap(zipSync({ "bomb.txt": bomb }))).rejects.toThrow(
+      "compression ratio"
+    );
+  });
+});
+
+describe("detectConverter", () => {
+  const detect = (
+    bytes: Uint8Array,
+    hints?: Parameters<typeof detectConverter>[1]
+  ) => detectConverter(bytes, hints)?.type ?? null;
+  const docx = zipSync({
+    "[Content_Types].xml": encode("<Types/>"),
+    "word/document.xml": encode("<w:document/>"),
+  });
+
+  test("magic bytes win over the extension", () => {
+    expect(detect(encode("%PDF-1.7\n"), { filename: "a.txt" })).toBe("pdf");
+    expect(detect(encode("{\\rtf1 hi}"), { filename: "a.md" })).toBe("rtf");
+    expect(detect(docx, { filename: "a.zip" })).toBe("docx");
+  });
+
+  test("ZIPs are only DOCX when the parts are archive entries", () => {
+    // A .docx stored uncompressed inside a plain ZIP.
+    expect(detect(zipSync({ "report.docx": [docx, { level: 0 }] }))).toBe(
+      "zip"
+    );
+    expect(detect(zipSync({ "word/document.xml": encode("<x/>") }))).toBe(
+      "zip"
+    );
+    expect(
+      detect(
+        zipSync({
+          "[Content_Types].xml": encode("<Types/>"),
+          "copy/word/document.xml": encode("<x/>"),
+        })
+      )
+    ).toBe("zip");
+    expect(detect(zipSync({ "a.txt": encode("word/document.xml") }))).toBe(
+      "zip"
+    );
+  });
+
+  test("ODF and EPUB packages by their mimetype entry", () => {
+    const pkg = (mimetype: string) =>
+      zipSync({
+        mimetype: [encode(mimetype), { level: 0 }],
+        "content.xml": encode("<x/>"),
+      });
+    expect(detect(pkg("application/vnd.oasis.opendocument.text"))).toBe("odt");
+    expect(detect(pkg("application/epub+zip"))).toBe("epub");
+  });
+
+  test("the extension, then the content type", () => {
+    expect(detect(encode("# Title"), { filename: "README.MD" })).toBe("md");
+    expect(detect(encode("a,b"), { contentType: "text/csv" })).toBe("csv");
+    expect(
+      detect(encode("a,b"), { filename: "a.json", contentType: "text/csv" })
+    ).toBe("json");
+  });
+
+  test("sniffs extension-less text", () => {
+    expect(detect(encode("<!DOCTYPE html><p>hi"))).toBe("html");
+    expect(detect(encode('<?xml version="1.0"?><a/>'))).toBe("xml");
+    expect(detect(encode('{"a": 1}'))).toBe("json");
+    expect(detect(encode("{not json"))).toBe("txt");
+    expect(
+      detect(encode("From: a@example.com\r\nDate: Mon, 1 Jan 2024\r\n\r\nhi"))
+    ).toBe("eml");
+    expect(detect(encode("just words"))).toBe("txt");
+  });
+
+  test("binary or unknown input without a text fallback", () => {
+    expect(detect(new Uint8Array([0, 1, 2, 3]))).toBeNull();
+    expect(detect(encode("notes"), { textFallback: false })).toBeNull();
+    expect(
+      detect(encode("notes"), { filename: "a.log", textFallback: false })
+    ).toBeNull();
+  });
+});
+
+describe("convertBatch", () => {
+  // Text entries render with pdf-lib alone, so no external tools are needed.
+  async function mergedPages(entries: [string, string][]) {
+    const ws = new TempWorkspace();
+    try {
+      return await runInWorkspace(ws, async () => {
+        const out = await convertBatch(
+          new Map(entries.map(([path, text]) => [path, encode(text)])),
+          "batch",
+          parseConvertOptions({ output: "merged" })
+        );
+        const pdf = await PDFDocument.load(await Bun.file(out.path).bytes());
+        return pdf.getPageCount();
+      });
+    } finally {
+      await ws.cleanup();
+    }
+  }
+
+  test("merges entries named like an order manifest as documents", async () => {
+    expect(
+      await mergedPages([
+        ["b.txt", "b"],
+        ["_order.txt", "a.txt"],
+        ["a.txt", "a"],
+      ])
+    ).toBe(3);
+  });
+});
+
+describe("plain text to PDF", () => {
+  const warnings = async (fields: Record<string, unknown>) => {
+    const ws = new TempWorkspace();
+    try {
+      const out = await runInWorkspace(ws, () =>
+        convertDetected({
+          bytes: encode(`dpi ${crypto.randomUUID()}`),
+          filename: "note.txt",
+          options: parseConvertOptions(fields),
+        })
+      );
+      return out.warnings ?? [];
+    } finally {
+      await ws.cleanup();
+    }
+  };
+
+  test("warns that dpi only applies to HTML rendering", async () => {
+    expect(await warnings({})).toEqual([]);
+    expect(await warnings({ dpi: 300 })).toEqual([
+      "dpi has no effect on plain text, which is laid out in points.",
+    ]);
+  });
+});
+
+describe("orderZipEntries", () => {
+  const archive = (files: Record<string, string>) =>
+    new Map(Object.entries(files).map(([path, text]) => [path, encode(text)]));
+  const docs = { "ch10.md": "", "ch2.md": "", "intro.md": "", "img/": "" };
+  const status = (entries: Map<string, Uint8Array>) => {
+    try {
+      orderZipEntries(entries);
+      return 200;
+    } catch (err) {
+      return (err as { status?: number }).status;
+    }
+  };
+
+  test("natural path order without a manifest, folders left out", () => {
+    expect(orderZipEntries(archive(docs))).toEqual([
+      "ch2.md",
+      "ch10.md",
+      "intro.md",
+    ]);
+  });
+
+  test("_order.json lists entries first, the rest follow", () => {
+    expect(
+      orderZipEntries(archive({ ...docs, "_order.json": '["intro.md"]' }))
+    ).toEqual(["intro.md", "ch2.md", "ch10.md"]);
+    expect(
+      orderZipEntries(
+        archive({ ...docs, "_order.json": '{"order": ["ch10.md", "ch2.md"]}' })
+      )
+    ).toEqual(["ch10.md", "ch2.md", "intro.md"]);
+  });
+
+  test("_order.txt skips blank lines and comments", () => {
+    const txt = "# front matter\r\n intro.md \n\nch10.md\n";
+    expect(orderZipEntries(archive({ ...docs, "_order.txt": txt }))).toEqual([
+      "intro.md",
+      "ch10.md",
+      "ch2.md",
+    ]);
+  });
+
+  test("_order.json wins over _order.txt", () => {
+    expect(
+      orderZipEntries(
+        archive({
+          ...docs,
+          "_order.json": '["ch10.md"]',
+          "_order.txt": "intro.md",
+        })
+      )
+    ).toEqual(["ch10.md", "ch2.md", "intro.md"]);
+  });
+
+  test("duplicates are merged once, at their first position", () => {
+    expect(
+      orderZipEntries(
+        archive({ ...docs, "_order.json": '["ch2.md", "intro.md", "ch2.md"]' })
+      )
+    ).toEqual(["ch2.md", "intro.md", "ch10.md"]);
+  });
+
+  test("400 for unknown paths, including manifests and folders", () => {
+    for (const listed of ['["ch3.md"]', '["_order.json"]', '["img/"]'])
+      expect(status(archive({ ...docs, "_order.json": listed }))).toBe(400);
+    expect(status(archive({ ...docs, "_order.txt": "ch3.md" }))).toBe(400);
+  });
+
+  test("400 for a malformed _order.json", () => {
+    for (const bad of ["[intro.md", '"intro.md"', "[1, 2]", '{"order": "a"}'])
+      expect(status(archive({ ...docs, "_order.json": bad }))).toBe(400);
+  });
+});
@@ -1,13 +1,102 @@
-// src/lib/conversion.ts
-import { ZipInputFile, unzipSync, zipSync } from "fflate";
+// src/convert.ts
+import { Unzip, UnzipInflate, Zippable, zipSync } from "fflate";
 import { HTTPException } from "hono/http-exception";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
 import { tmpdir } from "os";
 import { basename, extname, join } from "path";
-import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
+import { PDFDocument, PDFFont, StandardFonts, rgb } from "pdf-lib";
+import {
+  CaptureOptions,
+  ConvertOptions,
+  DEFAULT_CONVERT_OPTIONS,
+  DEFAULT_RENDER_OPTIONS,
+  HEADER_FOOTER_FONT_SIZE,
+  PageVars,
+  expandPlaceholders,
+  mmToPt,
+  pageSizeMm,
+  pageVarsFor,
+  parseConvertOptions,
+  viewportRender,
+  wkCaptureArgs,
+  wkHeaderFooterArgs,
+  wkRenderArgs,
+} from "./options";
+import {
+  countPdfPages,
+  encodableText,
+  loadPdf,
+  mergePdfs,
+  savePdf_toPath,
+  stampPdf,
+} from "./pdf-tools";
+import { CACHE_MAX_BYTES, cacheGet, cacheKey, cachePut } from "./cache";
+import { docxToHtml, loadStyleProfile } from "./docx";
+import { startEgressProxy } from "./egress-proxy";
+import {
+  EMAIL_CSS,
+  EmailAttachment,
+  EmailMessage,
+  emailToHtml,
+  parseEml,
+  parseMsg,
+} from "./email";
+import { EPUB_CSS, epubToHtml, readEpub } from "./epub";
+import { currentRequestId } from "./logging";
+import {
+  DocumentFormat,
+  FORMAT_TYPES,
+  htmlToMarkdown,
+  htmlToText,
+  standaloneHtml,
+} from "./outputs";
+import { recordConversion, timeStage } from "./metrics";
+import { odtToHtml } from "./odt";
+import { convertToPdfA, setDocumentMetadata } from "./pdfa";
+import { processPool } from "./pool";
+import {
+  CODE_CSS,
+  CSV_CSS,
+  csvToHtml,
+  jsonToHtml,
+  markdownToHtml,
+  xmlToHtml,
+} from "./text-formats";
+import { fetchError, fetchWithPolicy } from "./url-policy";
+import { Theme, injectStylesheet, loadTheme, textFontFor } from "./themes";
+import { tempPath } from "./workspace";
 
 /* ------------------------------- Constants -------------------------------- */
 export const TEMP_DIR = tmpdir();
 export const MAX_FILE_BYTES = 50 * 1024 * 1024; // 50 MB
+export const URL_MAX_PER_REQUEST = Number(
+  process.env.URL_MAX_PER_REQUEST || 20
+);
+// What all the URLs of one request may download together.
+export const URL_MAX_TOTAL_BYTES = Number(
+  process.env.URL_MAX_TOTAL_BYTES || 200 * 1024 * 1024
+);
+// When wkhtmltopdf runs sandboxed: "always", only for documents fetched from
+// a URL ("url", the default), or only when a request asks for it ("off").
+// Capture mode replaces the sandbox with the policy-checking egress proxy.
+export const RENDER_SANDBOX =
+  (["always", "url", "off"] as const).find(
+    (m) => m === process.env.RENDER_SANDBOX
+  ) ?? "url";
+
+// Archive limits apply to what an upload expands to, not its compressed size.
+export const ZIP_MAX_ENTRIES = Number(process.env.ZIP_MAX_ENTRIES || 1000);
+export const ZIP_MAX_UNCOMPRESSED_BYTES = Number(
+  process.env.ZIP_MAX_UNCOMPRESSED_BYTES || 200 * 1024 * 1024
+);
+export const ZIP_MAX_ENTRY_BYTES = Number(
+  process.env.ZIP_MAX_ENTRY_BYTES || MAX_FILE_BYTES
+);
+export const ZIP_MAX_RATIO = Number(process.env.ZIP_MAX_RATIO || 100);
+// "reject" fails the whole archive on a traversal/absolute entry name;
+// "normalize" rewrites it to a safe relative path instead.
+export const ZIP_UNSAFE_PATHS: "reject" | "normalize" =
+  process.env.ZIP_UNSAFE_PATHS === "normalize" ? "normalize" : "reject";
 
 /* ----------------------- External tool availability ----------------------- */
 export async function hasWK(): Promise<boolean> {
@@ -39,6 +128,22 @@ export async function hasUnrtf(): Promise<boolean> {
   }
 }
 
+export async function hasWKImage(): Promise<boolean> {
+  try {
+    const p = Bun.spawn(
+      [process.env.WKHTMLTOIMAGE_PATH || "wkhtmltoimage", "--version"],
+      {
+        stdout: "pipe",
+        stderr: "pipe",
+      }
+    );
+    await p.exited;
+    return p.exitCode === 0;
+  } catch {
+    return false;
+  }
+}
+
 export async function getWKVersion(): Promise<string | null> {
   try {
     const p = Bun.spawn(
@@ -111,57 +216,209 @@ export function enforceStringLimit(name: string, text: string) {
   }
 }
 
+/** Status + message for an error, as reported to API callers. */
+export function describeError(err: unknown): {
+  status: ContentfulStatusCode;
+  message: string;
+} {
+  return err instanceof HTTPException
+    ? { status: err.status, message: err.message }
+    : { status: 500, message: (err as Error)?.message || "Internal error" };
+}
+
 /* ------------------------------ Stream helper ---------------------------- */
-export function streamFile(path: string, filename: string, mime: string) {
+const MAX_WARNINGS_HEADER = 4096;
+
+export function streamFile(
+  path: string,
+  filename: string,
+  mime: string,
+  warnings?: string[]
+) {
   const f = Bun.file(path);
-  return new Response(f, {
-    status: 200,
-    headers: {
-      "Content-Type": mime,
-      "Content-Disposition": `attachment; filename="${filename}"`,
-      "Content-Length": f.size.toString(),
-      "Cache-Control": "no-store",
-    },
-  });
+  const headers: Record<string, string> = {
+    "Content-Type": mime,
+    "Content-Disposition": `attachment; filename="${filename}"`,
+    "Content-Length": f.size.toString(),
+    "Cache-Control": "no-store",
+  };
+  if (warnings?.length)
+    headers["X-Conversion-Warnings"] = warningsHeader(warnings);
+  return new Response(f, { status: 200, headers });
+}
+
+/**
+ * Warnings as a JSON array of strings, non-ASCII escaped so it is a valid
+ * header value. Warnings that don't fit are summarized in a last entry.
+ */
+function warningsHeader(warnings: string[]) {
+  const encode = (list: string[]) =>
+    JSON.stringify(list).replace(
+      /[^\x20-\x7e]/g,
+      (ch) => `\\u${ch.charCodeAt(0).toString(16).padStart(4, "0")}`
+    );
+  let kept = warnings.length;
+  let value = encode(warnings);
+  while (value.length > MAX_WARNINGS_HEADER && kept > 0) {
+    kept--;
+    value = encode([
+      ...warnings.slice(0, kept),
+      `…and ${warnings.length - kept} more`,
+    ]);
+  }
+  return value;
 }
 
 /* --------------------------- HTML → PDF (wkhtml) -------------------------- */
+// Untrusted HTML may not read local files, run scripts or reach the network;
+// routing every request through a dead proxy is how wkhtmltopdf blocks the
+// latter.
+const WK_SANDBOX_ARGS = [
+  "--disable-local-file-access",
+  "--disable-javascript",
+  "--proxy",
+  "http://127.0.0.1:9",
+];
+
+/**
+ * Run wkhtmltopdf/wkhtmltoimage with the file and network access `options`
+ * allow. Capture mode loads the page's own resources, but only through an
+ * egress proxy for this render, which applies the URL policy to every
+ * request.
+ */
+async function withWkAccess<T>(
+  options: ConvertOptions,
+  run: (access: string[]) => Promise<T>
+): Promise<T> {
+  if (!options.capture)
+    return run(
+      isSandboxed(options) ? WK_SANDBOX_ARGS : ["--enable-local-file-access"]
+    );
+  const proxy = await startEgressProxy(currentRequestId());
+  try {
+    return await run(["--disable-local-file-access", "--proxy", proxy.url]);
+  } finally {
+    proxy.close();
+  }
+}
+
+const isSandboxed = (options: ConvertOptions) =>
+  !options.capture && (options.sandbox || RENDER_SANDBOX === "always");
+
+/**
+ * Capture cookies go into a cookie jar with one host-only entry per
+ * captured origin. wkhtmltopdf's own --cookie would send them to every host
+ * the page loads from, third parties included.
+ */
+async function wkCookieJar(
+  capture: CaptureOptions,
+  outNameBase: string
+): Promise<string | undefined> {
+  const cookies = Object.entries(capture.cookies);
+  if (!cookies.length || !capture.origins?.length) return undefined;
+  const lines = capture.origins.flatMap((origin) => {
+    const url = new URL(origin);
+    const scope = `; domain=${url.hostname}; path=/${url.protocol === "https:" ? "; secure" : ""}`;
+    return cookies.map(([k, v]) => `${k}=${encodeURIComponent(v)}${scope}`);
+  });
+  const path = tempPath(`${outNameBase}.cookies.txt`);
+  await Bun.write(path, lines.join("\n") + "\n");
+  return path;
+}
+
+/** Theme and request CSS, layered over whatever the document brings. */
+async function resolveStyling(
+  options: ConvertOptions
+): Promise<{ css: string; theme?: Theme }> {
+  const theme = options.theme ? await loadTheme(options.theme) : undefined;
+  return { css: [theme?.css, options.css].filter(Boolean).join("\n"), theme };
+}
+
+// wkhtmltopdf passes page numbers to header/footer pages in the query
+// string; this fills the spans {page} and {pages} expand to. Sandboxed
+// renders have scripts off, so those stay empty there (with a warning).
+const WK_PAGE_NUMBER_SCRIPT =
+  "<script>(function(){var q={};location.search.slice(1).split('&').forEach(" +
+  "function(p){var kv=p.split('=');q[kv[0]]=decodeURIComponent(kv[1]||'')});" +
+  "['page','topage'].forEach(function(k){var e=document.getElementsByClassName(k);" +
+  "for(var i=0;i<e.length;i++)e[i].textContent=q[k]||''})})()</script>";
+
+/**
+ * The theme's folder may be read (letterhead images), and its header and
+ * footer HTML become --header-html/--footer-html unless the request set
+ * text for that slot itself.
+ */
+async function wkThemeArgs(
+  theme: Theme,
+  options: ConvertOptions,
+  vars: PageVars,
+  outNameBase: string,
+  warnings?: string[]
+): Promise<string[]> {
+  const args = ["--allow", theme.dir];
+  const escape = (v: string) =>
+    v.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  for (const part of ["header", "footer"] as const) {
+    const html = part === "header" ? theme.headerHtml : theme.footerHtml;
+    if (!html || options[part]) continue;
+    if (isSandboxed(options) && /\{(page|pages)\}/.test(html))
+      warnings?.push(
+        `Theme "${theme.name}" ${part}: {page} and {pages} are left empty in sandboxed renders, which run no scripts.`
+      );
+    const body = expandPlaceholders(html, {
+      filename: escape(vars.filename),
+      title: escape(vars.title),
+      date: vars.date,
+      page: '<span class="page"></span>',
+      pages: '<span class="topage"></span>',
+    });
+    const path = tempPath(`${outNameBase}-${part}.html`);
+    await Bun.write(
+      path,
+      `<!doctype html><html><head><meta charset="utf-8">` +
+        `<base href="file://${theme.dir}/"></head>` +
+        `<body style="margin:0">${body}${WK_PAGE_NUMBER_SCRIPT}</body></html>`
+    );
+    args.push(`--${part}-html`, path);
+  }
+  return args;
+}
+
 export async function htmlToPdfWithWK_toPath(
   html: string,
-  outNameBase = "doc"
+  outNameBase = "doc",
+  options: ConvertOptions = DEFAULT_CONVERT_OPTIONS,
+  sourceName = `${outNameBase}.html`,
+  warnings?: string[]
 ): Promise<string> {
-  const htmlPath = join(
-    TEMP_DIR,
-    `${Date.now()}-${Math.random().toString(36).slice(2)}-${outNameBase}.html`
-  );
-  const pdfPath = join(
-    TEMP_DIR,
-    `${Date.now()}-${Math.random().toString(36).slice(2)}-${outNameBase}.pdf`
-  );
-  await Bun.write(htmlPath, html);
+  const htmlPath = tempPath(`${outNameBase}.html`);
+  const pdfPath = tempPath(`${outNameBase}.pdf`);
+  const { css, theme } = await resolveStyling(options);
+  await Bun.write(htmlPath, injectStylesheet(html, css));
 
   const bin = process.env.WKHTMLTOPDF_PATH || "wkhtmltopdf";
+  const { capture } = options;
+  const vars = pageVarsFor(options, sourceName);
   const args = [
     "--quiet",
-    "--enable-local-file-access",
-    "--print-media-type",
-    "--margin-top",
-    "12mm",
-    "--margin-right",
-    "12mm",
-    "--margin-bottom",
-    "12mm",
-    "--margin-left",
-    "12mm",
+    ...(capture
+      ? wkCaptureArgs(capture, await wkCookieJar(capture, outNameBase))
+      : ["--print-media-type"]),
+    ...wkRenderArgs(
+      capture?.paging === "viewport"
+        ? viewportRender(options.render, capture)
+        : options.render
+    ),
+    ...wkHeaderFooterArgs(options, vars),
+    ...(theme
+      ? await wkThemeArgs(theme, options, vars, outNameBase, warnings)
+      : []),
     htmlPath,
     pdfPath,
   ];
-  const proc = Bun.spawn([bin, ...args], { stdout: "pipe", stderr: "pipe" });
-  const [stdout, stderr] = await Promise.all([
-    new Response(proc.stdout).text(),
-    new Response(proc.stderr).text(),
-  ]);
-  const code = await proc.exited;
+  const { code, stdout, stderr } = await withWkAccess(options, (access) =>
+    processPool.run([bin, ...access, ...args], "wkhtmltopdf")
+  );
   if (code !== 0) {
     throw new Error(
       `wkhtmltopdf failed (${code})\nSTDOUT:\n${stdout}\nSTDERR:\n${stderr}`
@@ -170,26 +427,78 @@ export async function htmlToPdfWithWK_toPath(
   return pdfPath;
 }
 
+/* -------------------------- HTML → image (wkhtml) ------------------------- */
+/**
+ * Render HTML to a PNG or JPEG. Unless `fullPage` is set the image is
+ * cropped to the first page, using the page setup's aspect ratio.
+ */
+export async function htmlToImageWithWK_toPath(
+  html: string,
+  outNameBase = "doc",
+  options: ConvertOptions = DEFAULT_CONVERT_OPTIONS,
+  format: "png" | "jpeg" = "png"
+): Promise<string> {
+  const htmlPath = tempPath(`${outNameBase}.html`);
+  const imgPath = tempPath(
+    `${outNameBase}.${format === "png" ? "png" : "jpg"}`
+  );
+  const { css } = await resolveStyling(options);
+  await Bun.write(htmlPath, injectStylesheet(html, css));
+
+  const bin = process.env.WKHTMLTOIMAGE_PATH || "wkhtmltoimage";
+  if (!(await hasWKImage()))
+    throw new HTTPException(503, {
+      message: "Image output needs wkhtmltoimage, which is not installed.",
+    });
+  const { capture, image } = options;
+  const width = capture?.windowWidth ?? image.width;
+  const [pageW, pageH] = pageSizeMm(options.render);
+  const cookieJar = capture && (await wkCookieJar(capture, outNameBase));
+  const args = [
+    "--quiet",
+    ...(capture
+      ? [
+          "--javascript-delay",
+          String(capture.jsDelay),
+          ...(cookieJar ? ["--cookie-jar", cookieJar] : []),
+        ]
+      : []),
+    "--format",
+    format === "png" ? "png" : "jpg",
+    "--quality",
+    String(image.quality),
+    "--width",
+    String(width),
+    "--disable-smart-width",
+    ...(image.fullPage
+      ? []
+      : ["--crop-h", String(Math.round((width * pageH) / pageW))]),
+    htmlPath,
+    imgPath,
+  ];
+  const { code, stdout, stderr } = await withWkAccess(options, (access) =>
+    processPool.run([bin, ...access, ...args], "wkhtmltoimage")
+  );
+  if (code !== 0) {
+    throw new Error(
+      `wkhtmltoimage failed (${code})\nSTDOUT:\n${stdout}\nSTDERR:\n${stderr}`
+    );
+  }
+  return imgPath;
+}
+
 /* ----------------------------- RTF → HTML -------------------------------- */
 export async function rtfToHtmlWithUnrtf(
   rtfBytes: Uint8Array
 ): Promise<string> {
-  const rtfPath = join(
-    TEMP_DIR,
-    `${Date.now()}-${Math.random().toString(36).slice(2)}.rtf`
-  );
+  const rtfPath = tempPath("input.rtf");
   await Bun.write(rtfPath, rtfBytes);
 
   const bin = process.env.UNRTF_PATH || "unrtf";
-  const proc = Bun.spawn([bin, "--html", "--quiet", rtfPath], {
-    stdout: "pipe",
-    stderr: "pipe",
-  });
-  const [stdout, stderr] = await Promise.all([
-    new Response(proc.stdout).text(),
-    new Response(proc.stderr).text(),
-  ]);
-  const code = await proc.exited;
+  const { code, stdout, stderr } = await processPool.run(
+    [bin, "--html", "--quiet", rtfPath],
+    "unrtf"
+  );
   if (code !== 0) throw new Error(`unrtf failed (${code})\nSTDERR:\n${stderr}`);
   return stdout;
 }
@@ -197,17 +506,26 @@ export async function rtfToHtmlWithUnrtf(
 /* ----------------------------- TXT → PDF --------------------------------- */
 export async function txtToPdf_toPath(
   bytes: Uint8Array,
-  filename = "document.txt"
+  filename = "document.txt",
+  options: ConvertOptions = DEFAULT_CONVERT_OPTIONS
 ): Promise<string> {
+  const { render } = options;
   const text = new TextDecoder("utf-8", { fatal: false }).decode(bytes);
   const pdf = await PDFDocument.create();
-  const font = await pdf.embedFont(StandardFonts.TimesRoman);
+  // Standard fonts only, so the theme's family maps to the nearest one.
+  const themed = textFontFor(BASE_CSS + (await resolveStyling(options)).css);
+  const font = await pdf.embedFont(themed.font ?? StandardFonts.TimesRoman);
 
-  const pageSize: [number, number] = [612, 792]; // Letter
-  const margin = 50;
-  const fontSize = 12;
+  const pageSize = pageSizeMm(render).map(mmToPt) as [number, number];
+  const margin = {
+    top: mmToPt(render.margins.top),
+    right: mmToPt(render.margins.right),
+    bottom: mmToPt(render.margins.bottom),
+    left: mmToPt(render.margins.left),
+  };
+  const fontSize = (themed.size ?? 12) * render.zoom;
   const lineHeight = fontSize * 1.3;
-  const maxWidth = pageSize[0] - margin * 2;
+  const maxWidth = pageSize[0] - margin.left - margin.right;
 
   const words = text.replace(/\r\n/g, "\n").split(/\s+/);
   const lines: string[] = [];
@@ -235,14 +553,14 @@ export async function txtToPdf_toPath(
   if (current) lines.push(current);
 
   let page = pdf.addPage(pageSize);
-  let y = page.getHeight() - margin;
+  let y = page.getHeight() - margin.top - fontSize;
   for (const line of lines) {
-    if (y < margin + lineHeight) {
+    if (y < margin.bottom) {
       page = pdf.addPage(pageSize);
-      y = page.getHeight() - margin;
+      y = page.getHeight() - margin.top - fontSize;
     }
     page.drawText(line, {
-      x: margin,
+      x: margin.left,
       y,
       size: fontSize,
       font,
@@ -251,52 +569,236 @@ export async function txtToPdf_toPath(
     y -= lineHeight;
   }
 
-  const footer = basename(filename);
-  const footerWidth = font.widthOfTextAtSize(footer, 9);
-  const firstPage = pdf.getPage(0);
-  firstPage.drawText(footer, {
-    x: (firstPage.getWidth() - footerWidth) / 2,
-    y: 20,
-    size: 9,
-    font,
-    color: rgb(0.3, 0.3, 0.3),
-  });
+  // Plain-text output has always carried its filename as a footer.
+  const decor =
+    options.header || options.footer
+      ? options
+      : { ...options, footer: { center: "{filename}" } };
+  const vars = pageVarsFor(options, filename);
+  drawHeaderFooter(pdf, font, decor, vars);
+  pdf.setTitle(vars.title);
 
-  const pdfBytes = await pdf.save();
-  const outPath = join(
-    TEMP_DIR,
-    `${Date.now()}-${Math.random().toString(36).slice(2)}-${basename(
-      filename,
-      ".txt"
-    )}.pdf`
-  );
+  const pdfBytes = await timeStage("pdf-lib", () => pdf.save());
+  const outPath = tempPath(`${basename(filename, ".txt")}.pdf`);
   await Bun.write(outPath, pdfBytes);
   return outPath;
 }
 
+/* ------------------------ Header / footer (pdf-lib) ----------------------- */
+/**
+ * Draw the header/footer templates on every page, centred in the margins.
+ * Characters the font cannot encode (say, from a Cyrillic {title}) print
+ * as "?".
+ */
+export function drawHeaderFooter(
+  pdf: PDFDocument,
+  font: PDFFont,
+  options: ConvertOptions,
+  vars: PageVars
+) {
+  const size = HEADER_FOOTER_FONT_SIZE;
+  const { margins } = options.render;
+  const pages = pdf.getPages();
+  pages.forEach((page, i) => {
+    const { width, height } = page.getSize();
+    const left = mmToPt(margins.left);
+    const right = width - mmToPt(margins.right);
+    const rows = [
+      { hf: options.header, y: height - mmToPt(margins.top) / 2 - size / 2 },
+      { hf: options.footer, y: mmToPt(margins.bottom) / 2 - size / 2 },
+    ];
+    for (const { hf, y } of rows) {
+      if (!hf) continue;
+      for (const slot of ["left", "center", "right"] as const) {
+        if (!hf[slot]) continue;
+        const text = encodableText(
+          font,
+          expandPlaceholders(hf[slot]!, {
+            ...vars,
+            page: i + 1,
+            pages: pages.length,
+          })
+        );
+        const w = font.widthOfTextAtSize(text, size);
+        const x =
+          slot === "left"
+            ? left
+            : slot === "right"
+              ? right - w
+              : (width - w) / 2;
+        page.drawText(text, { x, y, size, font, color: rgb(0.3, 0.3, 0.3) });
+      }
+    }
+  });
+}
+
 /* ------------------------------- ZIP utils -------------------------------- */
-export function unzipToMap(zipBytes: Uint8Array): Map<string, Uint8Array> {
-  const out = unzipSync(zipBytes);
+// Small entries compress absurdly well (a page of spaces), so the ratio check
+// only kicks in once an entry has produced this much output.
+const ZIP_RATIO_MIN_BYTES = 1024 * 1024;
+const UNZIP_CHUNK_BYTES = 1024 * 1024;
+
+/**
+ * Make an entry name safe to use as a relative path: "/"-separated (Windows
+ * archivers may use "\\"), no drive letter or leading slash, no "." / ".."
+ * segments. Throws 422 in "reject" mode when the name was unsafe; returns
+ * null for names that are empty once normalized.
+ */
+export function safeEntryPath(
+  name: string,
+  mode: "reject" | "normalize" = ZIP_UNSAFE_PATHS
+): string | null {
+  const isDir = /[\\/]$/.test(name);
+  const unsafe =
+    name.includes("\0") ||
+    /^([a-z]:|[\\/])/i.test(name) ||
+    name.split(/[\\/]/).some((seg) => seg === "..");
+  if (unsafe && mode === "reject")
+    throw new HTTPException(422, {
+      message: `Unsafe ZIP entry name "${name}": absolute paths and ".." are not allowed.`,
+    });
+
+  const segments: string[] = [];
+  for (const seg of name
+    .replace(/\0/g, "")
+    .replace(/^[a-z]:/i, "")
+    .split(/[\\/]/)) {
+    if (!seg || seg === ".") continue;
+    if (seg === "..") segments.pop();
+    else segments.push(seg);
+  }
+  if (!segments.length) return null;
+  return segments.join("/") + (isDir ? "/" : "");
+}
+
+/**
+ * Stream-decompress an archive into memory, enforcing the ZIP_* limits as
+ * bytes are produced so a bomb is stopped before it is fully inflated.
+ * Exceeding a size or count cap is a 413; unsafe names, suspicious ratios
+ * and malformed archives are 422.
+ */
+export async function unzipToMap(
+  zipBytes: Uint8Array
+): Promise<Map<string, Uint8Array>> {
   const map = new Map<string, Uint8Array>();
-  for (const [k, v] of Object.entries(out)) map.set(k, v);
+  let failure: unknown = null;
+  let entryCount = 0;
+  let pending = 0;
+  let totalBytes = 0;
+  const fail = (status: 413 | 422, message: string) => {
+    failure ??= new HTTPException(status, { message });
+  };
+
+  const unzipper = new Unzip((file) => {
+    if (failure) return;
+    if (++entryCount > ZIP_MAX_ENTRIES)
+      return fail(413, `ZIP has too many entries. Max is ${ZIP_MAX_ENTRIES}.`);
+    let path: string | null;
+    try {
+      path = safeEntryPath(file.name);
+    } catch (err) {
+      failure ??= err;
+      return;
+    }
+    if (!path) return;
+    if (path.endsWith("/")) {
+      map.set(path, new Uint8Array(0));
+      return;
+    }
+    if (map.has(path)) return fail(422, `Duplicate ZIP entry "${path}".`);
+    if ((file.originalSize ?? 0) > ZIP_MAX_ENTRY_BYTES)
+      return fail(413, entryTooLarge(path));
+
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    pending++;
+    file.ondata = (err, chunk, final) => {
+      if (failure) return;
+      if (err) return fail(422, `ZIP entry "${path}" is corrupt.`);
+      size += chunk.length;
+      totalBytes += chunk.length;
+      if (size > ZIP_MAX_ENTRY_BYTES) fail(413, entryTooLarge(path!));
+      else if (totalBytes > ZIP_MAX_UNCOMPRESSED_BYTES)
+        fail(
+          413,
+          `ZIP expands to more than ${formatMB(ZIP_MAX_UNCOMPRESSED_BYTES)}.`
+        );
+      else if (
+        size > ZIP_RATIO_MIN_BYTES &&
+        size / Math.max(1, file.size ?? zipBytes.length) > ZIP_MAX_RATIO
+      )
+        fail(
+          422,
+          `ZIP entry "${path}" has a suspicious compression ratio (over ${ZIP_MAX_RATIO}:1).`
+        );
+      if (failure) return file.terminate();
+      chunks.push(chunk);
+      if (!final) return;
+      map.set(path!, concatBytes(chunks, size));
+      pending--;
+    };
+    try {
+      file.start();
+    } catch {
+      fail(422, `ZIP entry "${path}" uses an unsupported compression method.`);
+    }
+  });
+  unzipper.register(UnzipInflate);
+
+  try {
+    for (let i = 0; i < zipBytes.length && !failure; i += UNZIP_CHUNK_BYTES) {
+      unzipper.push(
+        zipBytes.subarray(i, i + UNZIP_CHUNK_BYTES),
+        i + UNZIP_CHUNK_BYTES >= zipBytes.length
+      );
+      // Let other requests run between chunks of a large archive.
+      await Bun.sleep(0);
+    }
+  } catch {
+    fail(422, "ZIP archive is malformed.");
+  }
+  if (!failure && (pending || !entryCount))
+    fail(422, "ZIP archive is truncated or malformed.");
+  if (failure) throw failure;
   return map;
 }
+
+function entryTooLarge(path: string) {
+  return `ZIP entry "${path}" is too large. Max size is ${formatMB(ZIP_MAX_ENTRY_BYTES)}.`;
+}
+
+function formatMB(bytes: number) {
+  return `${Math.round(bytes / (1024 * 1024))}MB`;
+}
+
+function concatBytes(chunks: Uint8Array[], size: number) {
+  if (chunks.length === 1) return chunks[0];
+  const out = new Uint8Array(size);
+  let offset = 0;
+  for (const c of chunks) {
+    out.set(c, offset);
+    offset += c.length;
+  }
+  return out;
+}
+
 export async function zipFromMap_toPath(
   files: Map<string, Uint8Array>,
   outBase = "bundle"
 ): Promise<string> {
-  const input: Record<string, ZipInputFile> = {};
+  const input: Zippable = {};
   for (const [k, v] of files.entries()) input[k] = v;
   const zipped = zipSync(input);
-  const outPath = join(
-    TEMP_DIR,
-    `${Date.now()}-${Math.random().toString(36).slice(2)}-${outBase}.zip`
-  );
+  const outPath = tempPath(`${outBase}.zip`);
   await Bun.write(outPath, zipped);
   return outPath;
 }
 
 /* ----------------------------- Request helpers ---------------------------- */
+/** A plain JSON object (not null, not an array). */
+export const isRecord = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === "object" && !Array.isArray(v);
+
 export async function readFormFile(c: any, key = "file"): Promise<File> {
   const form = await c.req.formData();
   const f = form.get(key);
@@ -308,21 +810,132 @@ export async function readFormFile(c: any, key = "file"): Promise<File> {
   return f;
 }
 
-/* ----------------------------- URL utilities ----------------------------- */
-export async function getUrlFromRequest(c: any): Promise<string> {
+/**
+ * Scalar request parameters from the query string plus the JSON body or the
+ * non-file multipart fields; body values win over the query string.
+ */
+export async function readRequestFields(
+  c: any
+): Promise<Record<string, unknown>> {
+  const fields: Record<string, unknown> = { ...c.req.query() };
   const ct = c.req.header("content-type") || "";
   if (ct.startsWith("application/json")) {
     const body = await c.req.json().catch(() => ({}));
-    if (body?.url && typeof body.url === "string") return body.url;
+    if (body && typeof body === "object" && !Array.isArray(body))
+      Object.assign(fields, body);
   } else if (ct.startsWith("multipart/form-data")) {
     const form = await c.req.formData();
-    const u = form.get("url");
-    if (typeof u === "string") return u;
+    for (const [k, v] of form.entries()) {
+      if (typeof v === "string") fields[k] = v;
+    }
   }
-  throw new HTTPException(400, {
-    message:
-      'Provide a URL via JSON { "url": "<https://...>" } or form-data field "url".',
-  });
+  return fields;
+}
+
+export async function readConvertOptions(c: any): Promise<ConvertOptions> {
+  const options = parseConvertOptions(await readRequestFields(c));
+  // Fail before any work is done, and before a job is queued.
+  if (options.theme) await loadTheme(options.theme);
+  return options;
+}
+
+/* ----------------------------- URL utilities ----------------------------- */
+/** URLs to fetch for one request and the headers to send with them. */
+export type UrlRequest = { urls: string[]; headers: Record<string, string> };
+
+/**
+ * Reads `urls` (array, or a whitespace/comma separated string) or `url`
+ * (repeatable in forms) from the query, JSON body or form, plus fetch
+ * headers from `headers`, `bearerToken`, `basicAuth` and `cookie`.
+ */
+export async function readUrlRequest(c: any): Promise<UrlRequest> {
+  const fields = await readRequestFields(c);
+  const ct = c.req.header("content-type") || "";
+  let urls: unknown[] = [];
+  if (Array.isArray(fields.urls)) urls = fields.urls;
+  else if (typeof fields.urls === "string")
+    urls = fields.urls.split(/[\s,]+/).filter(Boolean);
+  else if (ct.startsWith("multipart/form-data"))
+    urls = (await c.req.formData()).getAll("url");
+  if (!urls.length && fields.url !== undefined) urls = [fields.url];
+
+  if (!urls.length || urls.some((u) => typeof u !== "string" || !u))
+    throw new HTTPException(400, {
+      message:
+        'Provide a URL via JSON { "url": "<https://...>" } or { "urls": [...] }, or form-data field "url".',
+    });
+  if (urls.length > URL_MAX_PER_REQUEST)
+    throw new HTTPException(400, {
+      message: `Too many URLs. Max is ${URL_MAX_PER_REQUEST} per request.`,
+    });
+  return { urls: urls as string[], headers: parseFetchHeaders(fields) };
+}
+
+// Headers the fetch layer owns; callers may not override them.
+const RESERVED_FETCH_HEADERS = new Set([
+  "host",
+  "connection",
+  "content-length",
+  "transfer-encoding",
+  "te",
+  "upgrade",
+  "keep-alive",
+  "expect",
+  "proxy-authorization",
+]);
+
+function parseFetchHeaders(
+  fields: Record<string, unknown>
+): Record<string, string> {
+  let raw = fields.headers;
+  if (typeof raw === "string" && raw.trim()) {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      throw new HTTPException(400, { message: "headers must be valid JSON." });
+    }
+  }
+  const headers: Record<string, string> = {};
+  if (raw !== undefined && raw !== "") {
+    if (!raw || typeof raw !== "object" || Array.isArray(raw))
+      throw new HTTPException(400, {
+        message: "headers must be an object of header names to values.",
+      });
+    for (const [k, v] of Object.entries(raw)) {
+      if (typeof v !== "string")
+        throw new HTTPException(400, {
+          message: `Header "${k}" must be a string.`,
+        });
+      headers[k.toLowerCase()] = v;
+    }
+  }
+
+  const str = (k: string) =>
+    typeof fields[k] === "string" && fields[k] ? (fields[k] as string) : null;
+  const bearer = str("bearerToken");
+  const basic = str("basicAuth");
+  const cookie = str("cookie");
+  if (bearer) headers.authorization = `Bearer ${bearer}`;
+  if (basic) {
+    if (!basic.includes(":"))
+      throw new HTTPException(400, {
+        message: 'basicAuth must be "username:password".',
+      });
+    headers.authorization = `Basic ${Buffer.from(basic).toString("base64")}`;
+  }
+  if (cookie) headers.cookie = cookie;
+
+  for (const [k, v] of Object.entries(headers)) {
+    if (!/^[!#$%&'*+.^_`|~0-9a-z-]+$/.test(k) || RESERVED_FETCH_HEADERS.has(k))
+      throw new HTTPException(400, {
+        message: `Header "${k}" cannot be set.`,
+      });
+    if (/[\r\n\0]/.test(v))
+      throw new HTTPException(400, {
+        message: `Header "${k}" has an invalid value.`,
+      });
+  }
+  return headers;
 }
 
 export function guessExtFromContentType(ct: string | null): string | null {
@@ -342,7 +955,34 @@ export function guessExtFromContentType(ct: string | null): string | null {
     case "application/zip":
     case "application/x-zip-compressed":
       return ".zip";
+    case "text/markdown":
+    case "text/x-markdown":
+      return ".md";
+    case "text/csv":
+    case "application/csv":
+      return ".csv";
+    case "text/tab-separated-values":
+      return ".tsv";
+    case "application/json":
+    case "text/json":
+      return ".json";
+    case "application/xhtml+xml":
+      return ".xhtml";
+    case "application/xml":
+    case "text/xml":
+      return ".xml";
+    case "application/vnd.oasis.opendocument.text":
+      return ".odt";
+    case "application/epub+zip":
+      return ".epub";
+    case "message/rfc822":
+      return ".eml";
+    case "application/vnd.ms-outlook":
+      return ".msg";
     default:
+      // Structured-syntax suffixes, e.g. application/ld+json, image/svg+xml.
+      if (t.endsWith("+json")) return ".json";
+      if (t.endsWith("+xml")) return ".xml";
       return null;
   }
 }
@@ -368,11 +1008,25 @@ export function extFromUrlOrDisposition(
   }
 }
 
-export async function downloadUrlToTemp(
+export function downloadUrlToTemp(
+  urlStr: string,
+  maxBytes = MAX_FILE_BYTES,
+  headers: Record<string, string> = {}
+) {
+  return timeStage("download", () => download(urlStr, maxBytes, headers));
+}
+
+async function download(
   urlStr: string,
-  maxBytes = MAX_FILE_BYTES
-): Promise<{ path: string; filename: string; contentType: string | null }> {
-  const res = await fetch(urlStr, { redirect: "follow" });
+  maxBytes: number,
+  headers: Record<string, string>
+): Promise<{
+  path: string;
+  filename: string;
+  contentType: string | null;
+  url: string;
+}> {
+  const { res, url, signal } = await fetchWithPolicy(urlStr, { headers });
   if (!res.ok)
     throw new HTTPException(502, {
       message: `Failed to fetch URL (status ${res.status}).`,
@@ -381,11 +1035,11 @@ export async function downloadUrlToTemp(
   const ct = res.headers.get("content-type");
   const cd = res.headers.get("content-disposition");
   const extByCT = guessExtFromContentType(ct);
-  const extByURL = extFromUrlOrDisposition(urlStr, cd);
+  const extByURL = extFromUrlOrDisposition(url.href, cd);
   const ext = (extByURL || extByCT || "").toLowerCase();
   const baseName =
     (cd && /filename\*?=(?:UTF-8''|")?([^";]+)/i.exec(cd)?.[1]) ||
-    basename(new URL(urlStr).pathname || "") ||
+    basename(url.pathname || "") ||
     "download";
   const safeBase =
     decodeURIComponent(baseName).replace(/[^\w.\-]+/g, "_") || "download";
@@ -395,10 +1049,7 @@ export async function downloadUrlToTemp(
       : safeBase + ext
     : safeBase;
 
-  const tmpPath = join(
-    TEMP_DIR,
-    `${Date.now()}-${Math.random().toString(36).slice(2)}-${filename}`
-  );
+  const tmpPath = tempPath(filename);
   const file = Bun.file(tmpPath);
   const w = file.writer();
   const reader = res.body?.getReader();
@@ -406,21 +1057,25 @@ export async function downloadUrlToTemp(
     throw new HTTPException(502, { message: "No response body from URL." });
 
   let received = 0;
-  while (true) {
-    const { value, done } = await reader.read();
-    if (done) break;
-    received += value?.byteLength ?? 0;
-    if (received > maxBytes) {
-      reader.cancel().catch(() => {});
-      await w.end();
-      throw new HTTPException(413, {
-        message: "Remote file exceeds 50MB limit.",
-      });
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      received += value?.byteLength ?? 0;
+      if (received > maxBytes) {
+        reader.cancel().catch(() => {});
+        throw new HTTPException(413, {
+          message: "Remote file exceeds 50MB limit.",
+        });
+      }
+      await w.write(value);
     }
-    await w.write(value);
+  } catch (err) {
+    throw signal.aborted ? fetchError(signal.reason) : fetchError(err);
+  } finally {
+    await w.end();
   }
-  await w.end();
-  return { path: tmpPath, filename, contentType: ct };
+  return { path: tmpPath, filename, contentType: ct, url: url.href };
 }
 
 export function normalizeHtmlWrapper(html: string) {
@@ -429,6 +1084,1075 @@ export function normalizeHtmlWrapper(html: string) {
     : `<!doctype html><html><head><meta charset="utf-8"></head><body>${html}</body></html>`;
 }
 
+/** Resolve the page's relative links against `href`, unless it sets its own base. */
+export function injectBaseHref(html: string, href: string) {
+  if (/<base[\s>]/i.test(html)) return html;
+  const tag = `<base href="${href.replace(/&/g, "&amp;").replace(/"/g, "&quot;")}">`;
+  const m = /<head[^>]*>/i.exec(html) ?? /<html[^>]*>/i.exec(html);
+  return m
+    ? html.slice(0, m.index + m[0].length) +
+        tag +
+        html.slice(m.index + m[0].length)
+    : tag + html;
+}
+
+export function htmlDocument(body: string, css = BASE_CSS) {
+  return `<!doctype html><html><head><meta charset="utf-8"><style>${css}</style></head><body>${body}</body></html>`;
+}
+
+/* --------------------------- Converter registry --------------------------- */
+export type ConvertInput = {
+  bytes: Uint8Array;
+  filename: string;
+  options?: ConvertOptions;
+  /** Temp file already holding `bytes`, if the caller has one. */
+  path?: string;
+  /** Collects notes on formatting lost in conversion. */
+  warnings?: string[];
+  /** The request's If-None-Match; naming the cache key skips the conversion. */
+  ifNoneMatch?: string;
+};
+
+export type ConvertOutput = {
+  path: string;
+  filename: string;
+  mime: string;
+  warnings?: string[];
+  /** Set when the output is cacheable; `key` doubles as the ETag. */
+  cache?: { key: string; hit: boolean };
+  /** The client already has this output (If-None-Match); `path` is empty. */
+  notModified?: boolean;
+};
+
+export interface Converter {
+  /** Registry key, e.g. "docx". */
+  type: string;
+  /** Extensions handled by this converter; the first one is canonical. */
+  exts: string[];
+  /** Magic-byte check; converters are sniffed in registration order. */
+  sniff?: (bytes: Uint8Array) => boolean;
+  /** Full HTML document for the input; rendered with wkhtmltopdf by default. */
+  toHtml?: (input: ConvertInput) => Promise<string>;
+  /** Custom pipeline for inputs that don't go through HTML. */
+  convert?: (input: ConvertInput) => Promise<ConvertOutput>;
+  /** `convert` honours every `output` format itself (archives). */
+  handlesOutput?: boolean;
+}
+
+const converters = new Map<string, Converter>();
+
+export function registerConverter(conv: Converter) {
+  converters.set(conv.type, conv);
+}
+
+export function getConverter(type: string): Converter {
+  const conv = converters.get(type);
+  if (!conv) throw new Error(`No converter registered for "${type}"`);
+  return conv;
+}
+
+export function supportedTypes(): string[] {
+  return [...converters.keys()];
+}
+
+function startsWithAscii(bytes: Uint8Array, sig: string) {
+  if (bytes.length < sig.length) return false;
+  for (let i = 0; i < sig.length; i++) {
+    if (bytes[i] !== sig.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+function looksLikeText(bytes: Uint8Array) {
+  const n = Math.min(bytes.length, 8192);
+  for (let i = 0; i < n; i++) if (bytes[i] === 0) return false;
+  return true;
+}
+
+function converterForExt(ext: string | null): Converter | null {
+  if (!ext) return null;
+  const e = ext.toLowerCase();
+  for (const conv of converters.values()) {
+    if (conv.exts.includes(e)) return conv;
+  }
+  return null;
+}
+
+/** Type of extension-less text: HTML, XML, email, JSON, or else plain text. */
+function sniffTextType(head: string, bytes: Uint8Array) {
+  if (/<(!doctype html|html)[\s>]/i.test(head)) return "html";
+  if (/^\uFEFF?\s*<\?xml[\s?]/.test(head)) return "xml";
+  // A saved message starts with its header block, From: among it.
+  if (
+    /^[\w-]+:[^\n]*\r?\n/.test(head) &&
+    /^from:/im.test(head) &&
+    /^(date|message-id|mime-version|received):/im.test(head)
+  )
+    return "eml";
+  if (/^\uFEFF?\s*[[{]/.test(head)) {
+    try {
+      JSON.parse(new TextDecoder().decode(bytes));
+      return "json";
+    } catch {}
+  }
+  return "txt";
+}
+
+/**
+ * Pick a converter for the input. Magic bytes win over the file extension,
+ * which wins over the declared content type; as a last resort textual input
+ * is treated as HTML or plain text, unless `textFallback` is false.
+ */
+export function detectConverter(
+  bytes: Uint8Array,
+  hints: {
+    filename?: string;
+    contentType?: string | null;
+    textFallback?: boolean;
+  } = {}
+): Converter | null {
+  for (const conv of converters.values()) {
+    if (conv.sniff?.(bytes)) return conv;
+  }
+  const byExt = converterForExt(
+    hints.filename ? extname(hints.filename) : null
+  );
+  if (byExt) return byExt;
+  const byCT = converterForExt(
+    guessExtFromContentType(hints.contentType ?? null)
+  );
+  if (byCT) return byCT;
+  if (hints.textFallback !== false && bytes.length && looksLikeText(bytes)) {
+    const head = new TextDecoder().decode(bytes.subarray(0, 1024));
+    return converters.get(sniffTextType(head, bytes)) ?? null;
+  }
+  return null;
+}
+
+/**
+ * Cache key for converting `input` with `conv`, or null when the output
+ * depends on more than the request (live page capture). Themes and style
+ * profiles live on disk, so their content is part of the key, and so is
+ * today's date when a header, footer or watermark prints {date}.
+ */
+async function cacheKeyFor(conv: Converter, input: ConvertInput) {
+  const options = input.options ?? DEFAULT_CONVERT_OPTIONS;
+  if (!CACHE_MAX_BYTES || options.capture) return null;
+  const theme = options.theme ? await loadTheme(options.theme) : null;
+  const templates = [
+    ...Object.values(options.header ?? {}),
+    ...Object.values(options.footer ?? {}),
+    theme?.headerHtml,
+    theme?.footerHtml,
+    options.watermark?.text,
+  ];
+  return cacheKey(input.bytes, {
+    converter: conv.type,
+    filename: input.filename,
+    options,
+    date: templates.some((t) => t?.includes("{date}"))
+      ? pageVarsFor(options, input.filename).date
+      : undefined,
+    theme: theme && [theme.css, theme.headerHtml, theme.footerHtml],
+    styleProfile:
+      options.docx?.styleProfile &&
+      (await loadStyleProfile(options.docx.styleProfile)),
+  });
+}
+
+/** Whether an If-None-Match header lists `etag` (or is "*"). */
+export function etagMatches(header: string | undefined, etag: string) {
+  return (header ?? "")
+    .split(",")
+    .map((t) => t.trim().replace(/^W\//, ""))
+    .some((t) => t === etag || t === "*");
+}
+
+/**
+ * Run `input` through `conv`, producing a scratch file. Outputs are cached
+ * by input hash, converter and options, so repeats skip the renderer, and
+ * a conditional request naming the key skips even the cache.
+ */
+export async function convertWith(
+  conv: Converter,
+  input: ConvertInput
+): Promise<ConvertOutput> {
+  const warnings = input.warnings ?? [];
+  const key = await cacheKeyFor(conv, input);
+  if (key && etagMatches(input.ifNoneMatch, `"${key}"`)) {
+    recordConversion(conv.type, "cached", input.bytes.length);
+    return {
+      path: "",
+      filename: input.filename,
+      mime: "",
+      cache: { key, hit: true },
+      notModified: true,
+    };
+  }
+  const cached = key && (await cacheGet(key));
+  if (key && cached) {
+    if (cached.warnings) warnings.push(...cached.warnings);
+    recordConversion(conv.type, "cached", input.bytes.length);
+    return { ...cached, cache: { key, hit: true } };
+  }
+
+  let out: ConvertOutput;
+  try {
+    out = await runConverter(conv, { ...input, warnings });
+  } catch (err) {
+    const { status } = describeError(err);
+    recordConversion(
+      conv.type,
+      status < 500 ? "rejected" : "failed",
+      input.bytes.length
+    );
+    throw err;
+  }
+  recordConversion(conv.type, "succeeded", input.bytes.length, {
+    format: extname(out.filename).slice(1) || "bin",
+    bytes: Bun.file(out.path).size,
+  });
+  warnings.push(...(out.warnings ?? []));
+  if (warnings.length) out = { ...out, warnings: [...new Set(warnings)] };
+  if (!key) return out;
+  await cachePut(key, out);
+  return { ...out, cache: { key, hit: false } };
+}
+
+async function runConverter(
+  conv: Converter,
+  input: ConvertInput
+): Promise<ConvertOutput> {
+  const format = input.options?.output ?? "pdf";
+  if (format !== "pdf" && format !== "merged" && !conv.handlesOutput)
+    return convertToFormat(conv, input, format);
+  if (conv.convert) return finishPdf(await conv.convert(input), input.options);
+  if (!conv.toHtml) throw new Error(`Converter "${conv.type}" has no pipeline`);
+  const stem = basename(input.filename, extname(input.filename));
+  const html = await conv.toHtml(input);
+  const path = await htmlToPdfWithWK_toPath(
+    html,
+    stem,
+    input.options,
+    input.filename,
+    input.warnings
+  );
+  return finishPdf(
+    { path, filename: `${stem}.pdf`, mime: "application/pdf" },
+    input.options
+  );
+}
+
+/** Non-PDF output: everything goes through the converter's HTML. */
+async function convertToFormat(
+  conv: Converter,
+  input: ConvertInput,
+  format: DocumentFormat
+): Promise<ConvertOutput> {
+  if (!conv.toHtml)
+    throw new HTTPException(415, {
+      message: `${conv.type} input cannot be converted to ${format}.`,
+    });
+  const options = input.options ?? DEFAULT_CONVERT_OPTIONS;
+  const stem = basename(input.filename, extname(input.filename));
+  const { ext, mime } = FORMAT_TYPES[format];
+  const html = await conv.toHtml(input);
+  const filename = `${stem}${ext}`;
+
+  if (format === "png" || format === "jpeg")
+    return {
+      path: await htmlToImageWithWK_toPath(html, stem, options, format),
+      filename,
+      mime,
+    };
+  const path = tempPath(filename);
+  await Bun.write(
+    path,
+    format === "html"
+      ? standaloneHtml(
+          html,
+          pageVarsFor(options, input.filename).title,
+          BASE_CSS + (await resolveStyling(options)).css
+        )
+      : format === "md"
+        ? htmlToMarkdown(html)
+        : htmlToText(html)
+  );
+  return { path, filename, mime };
+}
+
+/**
+ * Load `input` as a PDFDocument, converting it first unless it already is
+ * a PDF. Only single-document inputs qualify (not ZIP archives).
+ */
+export async function loadAsPdf(
+  input: ConvertInput,
+  contentType?: string | null
+): Promise<PDFDocument> {
+  const conv = detectConverter(input.bytes, {
+    filename: input.filename,
+    contentType,
+  });
+  if (conv?.type === "pdf") return loadPdf(input.bytes, input.filename);
+  if (!conv || conv.type === "zip")
+    throw new HTTPException(415, {
+      message: `${input.filename}: unsupported file type.`,
+    });
+  const out = await convertWith(conv, {
+    ...input,
+    options: input.options && { ...input.options, output: "pdf" },
+  });
+  const bytes = new Uint8Array(await Bun.file(out.path).arrayBuffer());
+  return loadPdf(bytes, out.filename);
+}
+
+/**
+ * Post-render steps that apply to any PDF output: the watermark, document
+ * metadata, then PDF/A conversion, whose unfixable problems are added to
+ * the output's warnings.
+ */
+export async function finishPdf(
+  out: ConvertOutput,
+  options?: ConvertOptions
+): Promise<ConvertOutput> {
+  if (out.mime !== "application/pdf" || !options) return out;
+  const { watermark, title, metadata, pdfa } = options;
+  if (!watermark && !title && !metadata && !pdfa) return out;
+  const bytes = new Uint8Array(await Bun.file(out.path).arrayBuffer());
+  const pdf = await loadPdf(bytes, out.filename);
+  if (watermark) await stampPdf(pdf, watermark);
+  const problems = pdfa ? await convertToPdfA(pdf) : [];
+  setDocumentMetadata(pdf, { ...metadata, title }, pdfa);
+  const stem = basename(out.filename, extname(out.filename));
+  const path = await savePdf_toPath(pdf, stem);
+  if (!problems.length) return { ...out, path };
+  return { ...out, path, warnings: [...(out.warnings ?? []), ...problems] };
+}
+
+/**
+ * Options for documents converted to be merged into another: watermarks,
+ * metadata and PDF/A are applied once, to the merged result.
+ */
+export function partOptions(options: ConvertOptions): ConvertOptions {
+  return { ...options, watermark: undefined, metadata: undefined, pdfa: false };
+}
+
+/** Detect the input type and convert, or fail with 415. */
+export async function convertDetected(
+  input: ConvertInput,
+  contentType?: string | null
+): Promise<ConvertOutput> {
+  const conv = detectConverter(input.bytes, {
+    filename: input.filename,
+    contentType,
+  });
+  if (!conv)
+    throw new HTTPException(415, {
+      message: `Unsupported file type. Allowed: ${supportedTypes().join(", ")}.`,
+    });
+  return convertWith(conv, input);
+}
+
+/**
+ * Remote documents render sandboxed unless RENDER_SANDBOX is "off". Capture
+ * cookies are scoped to the origins of `urls`.
+ */
+function remoteOptions(
+  urls: string[],
+  options?: ConvertOptions
+): ConvertOptions {
+  const capture = options?.capture;
+  return {
+    ...(options ?? DEFAULT_CONVERT_OPTIONS),
+    sandbox: options?.sandbox || RENDER_SANDBOX !== "off",
+    capture: capture && {
+      ...capture,
+      origins: [...new Set(urls.map((u) => new URL(u).origin))],
+    },
+  };
+}
+
+/** The fetch headers plus capture cookies, so the page itself gets them too. */
+function withCaptureCookies(
+  headers: Record<string, string>,
+  options?: ConvertOptions
+): Record<string, string> {
+  const cookies = Object.entries(options?.capture?.cookies ?? {}).map(
+    ([k, v]) => `${k}=${encodeURIComponent(v)}`
+  );
+  if (!cookies.length) return headers;
+  return {
+    ...headers,
+    cookie: [headers.cookie, ...cookies].filter(Boolean).join("; "),
+  };
+}
+
+/**
+ * Fetch a remote document and convert it (PDFs are passed through, ZIPs go
+ * through the same batch conversion as uploads). `headers` are only sent to
+ * the URL's own origin, never across a redirect to another one.
+ */
+export async function convertUrl(
+  urlStr: string,
+  options?: ConvertOptions,
+  headers: Record<string, string> = {},
+  ifNoneMatch?: string
+): Promise<ConvertOutput> {
+  if (!/^https?:\/\//i.test(urlStr)) {
+    throw new HTTPException(400, {
+      message: "Only http(s) URLs are supported.",
+    });
+  }
+
+  const {
+    path: tmpPath,
+    filename,
+    contentType,
+    url,
+  } = await downloadUrlToTemp(
+    urlStr,
+    MAX_FILE_BYTES,
+    withCaptureCookies(headers, options)
+  );
+  let bytes = new Uint8Array(await Bun.file(tmpPath).arrayBuffer());
+  const conv = detectConverter(bytes, { filename, contentType });
+  if (!conv) {
+    throw new HTTPException(415, {
+      message: `Unsupported remote type. Allowed: ${supportedTypes().join(", ")}.`,
+    });
+  }
+
+  // Captured pages keep their own base URL so relative assets still load.
+  const captured = conv.type === "html" && options?.capture;
+  if (captured)
+    bytes = new TextEncoder().encode(
+      injectBaseHref(new TextDecoder().decode(bytes), url)
+    );
+  return convertWith(conv, {
+    bytes,
+    filename,
+    path: captured ? undefined : tmpPath,
+    options: remoteOptions([urlStr], options),
+    ifNoneMatch,
+  });
+}
+
+/**
+ * Convert one or more URLs. Several URLs are fetched up front and then
+ * treated like the entries of an uploaded ZIP: a ZIP of PDFs with
+ * manifest.json, or with `output=merged` one PDF in the order given. A URL
+ * that cannot be fetched is reported as a failed entry; the request only
+ * fails when none can.
+ */
+export async function convertUrls(
+  { urls, headers }: UrlRequest,
+  options?: ConvertOptions,
+  ifNoneMatch?: string
+): Promise<ConvertOutput> {
+  if (urls.length === 1)
+    return convertUrl(urls[0], options, headers, ifNoneMatch);
+  const invalid = urls.find((url) => !/^https?:\/\//i.test(url));
+  if (invalid)
+    throw new HTTPException(400, {
+      message: `Only http(s) URLs are supported: ${invalid}`,
+    });
+
+  const fetchHeaders = withCaptureCookies(headers, options);
+  const entries = new Map<string, Uint8Array>();
+  const failed: BatchEntryReport[] = [];
+  let firstError: HTTPException | null = null;
+  let budget = URL_MAX_TOTAL_BYTES;
+  for (const url of urls) {
+    const started = Date.now();
+    const limit = Math.min(MAX_FILE_BYTES, budget);
+    try {
+      if (limit <= 0) throw new HTTPException(413);
+      const dl = await downloadUrlToTemp(url, limit, fetchHeaders);
+      let bytes = new Uint8Array(await Bun.file(dl.path).arrayBuffer());
+      budget -= bytes.length;
+      if (options?.capture && detectConverter(bytes, dl)?.type === "html")
+        bytes = new TextEncoder().encode(
+          injectBaseHref(new TextDecoder().decode(bytes), dl.url)
+        );
+      entries.set(uniqueEntryPath(entries, dl.filename), bytes);
+    } catch (err) {
+      let { status, message } = describeError(err);
+      if (status === 413 && limit < MAX_FILE_BYTES)
+        message = `The URLs together exceed ${formatMB(URL_MAX_TOTAL_BYTES)}.`;
+      firstError ??= new HTTPException(status, {
+        message: `${url}: ${message}`,
+      });
+      failed.push({
+        source: url,
+        type: null,
+        status: "failed",
+        output: null,
+        pages: null,
+        durationMs: Date.now() - started,
+        error: message,
+      });
+    }
+  }
+  if (!entries.size) throw firstError!;
+
+  return convertBatch(entries, "urls", remoteOptions(urls, options), failed);
+}
+
+/**
+ * Convert several in-memory documents as one batch: a ZIP of outputs with
+ * a manifest, or with output=merged a single PDF in insertion order.
+ * `failed` lists inputs that never made it into `entries`, for the report.
+ */
+export async function convertBatch(
+  entries: Map<string, Uint8Array>,
+  filename: string,
+  options: ConvertOptions,
+  failed: BatchEntryReport[] = []
+): Promise<ConvertOutput> {
+  if (options.output !== "merged")
+    return convertZipEntries(entries, filename, options, failed);
+  return finishPdf(
+    await mergeZipEntries(entries, filename, options, failed, [
+      ...entries.keys(),
+    ]),
+    options
+  );
+}
+
+/** Swap a path's extension for `newExt`, keeping any directory prefix. */
+export function outputPathFor(path: string, newExt = ".pdf") {
+  const ext = extname(path);
+  return (ext ? path.slice(0, -ext.length) : path) + newExt;
+}
+
+const isZip = (b: Uint8Array) => startsWithAscii(b, "PK\x03\x04");
+
+/**
+ * The `mimetype` entry that ODF and EPUB packages store first and
+ * uncompressed, read straight from the first local file header.
+ */
+function packageMimetype(b: Uint8Array): string | null {
+  if (!isZip(b) || b.length < 30) return null;
+  const buf = Buffer.from(b.buffer, b.byteOffset, b.byteLength);
+  const method = buf.readUInt16LE(8);
+  const size = buf.readUInt32LE(18);
+  const nameLen = buf.readUInt16LE(26);
+  const start = 30 + nameLen + buf.readUInt16LE(28);
+  if (method !== 0 || size > 100 || start + size > b.length) return null;
+  if (buf.toString("latin1", 30, 30 + nameLen) !== "mimetype") return null;
+  return buf.toString("latin1", start, start + size).trim();
+}
+
+/**
+ * Entry names from the archive's central directory, without inflating
+ * anything. Empty when there is no readable directory (not a ZIP, truncated,
+ * ZIP64).
+ */
+function zipEntryNames(b: Uint8Array): string[] {
+  if (!isZip(b) || b.length < 22) return [];
+  const buf = Buffer.from(b.buffer, b.byteOffset, b.byteLength);
+  // The end record sits at the very end, after an optional comment.
+  let end = -1;
+  for (let i = b.length - 22; i >= Math.max(0, b.length - 22 - 0xffff); i--) {
+    if (buf.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) return [];
+  const count = buf.readUInt16LE(end + 10);
+  let offset = buf.readUInt32LE(end + 16);
+  const names: string[] = [];
+  for (let n = 0; n < count; n++) {
+    if (offset + 46 > end || buf.readUInt32LE(offset) !== 0x02014b50) return [];
+    const nameLen = buf.readUInt16LE(offset + 28);
+    const start = offset + 46;
+    if (start + nameLen > end) return [];
+    names.push(buf.toString("utf8", start, start + nameLen));
+    offset =
+      start +
+      nameLen +
+      buf.readUInt16LE(offset + 30) +
+      buf.readUInt16LE(offset + 32);
+  }
+  return names;
+}
+
+registerConverter({
+  type: "pdf",
+  exts: [".pdf"],
+  sniff: (b) => startsWithAscii(b, "%PDF-"),
+  convert: async ({ bytes, filename, path }) => {
+    if (!path) {
+      path = tempPath(filename);
+      await Bun.write(path, bytes);
+    }
+    return { path, filename: basename(filename), mime: "application/pdf" };
+  },
+});
+
+registerConverter({
+  type: "docx",
+  exts: [".docx"],
+  // OOXML is a ZIP with these two parts at its root.
+  sniff: (b) => {
+    const names = zipEntryNames(b);
+    return (
+      names.includes("[Content_Types].xml") &&
+      names.includes("word/document.xml")
+    );
+  },
+  toHtml: async ({ bytes, options, warnings }) =>
+    htmlDocument(await docxToHtml(bytes, options?.docx, warnings)),
+});
+
+registerConverter({
+  type: "rtf",
+  exts: [".rtf"],
+  sniff: (b) => startsWithAscii(b, "{\\rtf"),
+  toHtml: async ({ bytes }) => htmlDocument(await rtfToHtmlWithUnrtf(bytes)),
+});
+
+registerConverter({
+  type: "html",
+  exts: [".html", ".htm", ".xhtml"],
+  toHtml: async ({ bytes }) =>
+    normalizeHtmlWrapper(new TextDecoder().decode(bytes)),
+});
+
+registerConverter({
+  type: "txt",
+  exts: [".txt"],
+  // PDFs are drawn directly with pdf-lib; other outputs go through <pre>.
+  toHtml: async ({ bytes }) =>
+    htmlDocument(
+      `<pre>${new TextDecoder()
+        .decode(bytes)
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")}</pre>`
+    ),
+  convert: async ({ bytes, filename, options, warnings }) => {
+    if (options && options.render.dpi !== DEFAULT_RENDER_OPTIONS.dpi)
+      warnings?.push(
+        "dpi has no effect on plain text, which is laid out in points."
+      );
+    return {
+      path: await txtToPdf_toPath(bytes, basename(filename), options),
+      filename: `${basename(filename, extname(filename))}.pdf`,
+      mime: "application/pdf",
+    };
+  },
+});
+
+registerConverter({
+  type: "md",
+  exts: [".md", ".markdown"],
+  toHtml: async ({ bytes }) => htmlDocument(markdownToHtml(bytes)),
+});
+
+registerConverter({
+  type: "csv",
+  exts: [".csv", ".tsv"],
+  toHtml: async ({ bytes, filename }) =>
+    htmlDocument(csvToHtml(bytes, filename), BASE_CSS + CSV_CSS),
+});
+
+registerConverter({
+  type: "json",
+  exts: [".json"],
+  toHtml: async ({ bytes, filename }) =>
+    htmlDocument(jsonToHtml(bytes, basename(filename)), BASE_CSS + CODE_CSS),
+});
+
+registerConverter({
+  type: "xml",
+  exts: [".xml"],
+  toHtml: async ({ bytes }) =>
+    htmlDocument(xmlToHtml(bytes), BASE_CSS + CODE_CSS),
+});
+
+registerConverter({
+  type: "odt",
+  exts: [".odt"],
+  sniff: (b) =>
+    packageMimetype(b) === "application/vnd.oasis.opendocument.text",
+  toHtml: async ({ bytes }) => htmlDocument(odtToHtml(await unzipToMap(bytes))),
+});
+
+registerConverter({
+  type: "epub",
+  exts: [".epub"],
+  sniff: (b) => packageMimetype(b) === "application/epub+zip",
+  toHtml: async ({ bytes }) =>
+    htmlDocument(
+      epubToHtml(readEpub(await unzipToMap(bytes))),
+      BASE_CSS + EPUB_CSS
+    ),
+});
+
+registerConverter({
+  type: "eml",
+  exts: [".eml"],
+  toHtml: async ({ bytes }) =>
+    htmlDocument(emailToHtml(await parseEml(bytes)), BASE_CSS + EMAIL_CSS),
+  convert: async (input) => emailToPdf(await parseEml(input.bytes), input),
+});
+
+registerConverter({
+  type: "msg",
+  exts: [".msg"],
+  toHtml: async ({ bytes }) =>
+    htmlDocument(emailToHtml(parseMsg(bytes)), BASE_CSS + EMAIL_CSS),
+  convert: async (input) => emailToPdf(parseMsg(input.bytes), input),
+});
+
+registerConverter({
+  type: "zip",
+  exts: [".zip"],
+  sniff: isZip,
+  handlesOutput: true,
+  convert: async ({ bytes, filename, options }) => {
+    const entries = await unzipToMap(bytes);
+    return options?.output === "merged"
+      ? mergeZipEntries(entries, filename, options)
+      : convertZipEntries(entries, filename, options);
+  },
+});
+
+/* ------------------------------ Email → PDF ------------------------------- */
+/**
+ * Render the message; with `attachments=append` every attachment that
+ * converts follows as its own pages, bookmarked by file name. The list in
+ * the message notes which ones were appended and why others were not.
+ */
+async function emailToPdf(
+  mail: EmailMessage,
+  input: ConvertInput
+): Promise<ConvertOutput> {
+  const options = input.options ?? DEFAULT_CONVERT_OPTIONS;
+  const stem = basename(input.filename, extname(input.filename));
+  const notes = new Map<EmailAttachment, string>();
+  const appended: { title: string; pdf: PDFDocument }[] = [];
+  if (options.attachments === "append") {
+    // Attached emails list their own attachments rather than append them.
+    const entryOptions: ConvertOptions = {
+      ...partOptions(options),
+      output: "pdf",
+      attachments: "list",
+    };
+    for (const a of mail.attachments.filter((a) => !a.inline)) {
+      try {
+        const pdf = await loadAsPdf(
+          { bytes: a.content, filename: a.filename, options: entryOptions },
+          a.mime
+        );
+        appended.push({ title: a.filename, pdf });
+        notes.set(a, "appended");
+      } catch (err) {
+        notes.set(a, `not appended: ${describeError(err).message}`);
+      }
+    }
+  }
+
+  const html = htmlDocument(emailToHtml(mail, notes), BASE_CSS + EMAIL_CSS);
+  const path = await htmlToPdfWithWK_toPath(
+    html,
+    stem,
+    options,
+    input.filename,
+    input.warnings
+  );
+  const out = { path, filename: `${stem}.pdf`, mime: "application/pdf" };
+  if (!appended.length) return out;
+  const message = await loadPdf(
+    new Uint8Array(await Bun.file(path).arrayBuffer()),
+    out.filename
+  );
+  const merged = await mergePdfs(
+    [{ title: mail.subject || stem, pdf: message }, ...appended],
+    { bookmarks: true }
+  );
+  return { ...out, path: await savePdf_toPath(merged, stem) };
+}
+
+/* ---------------------------- ZIP → ZIP of PDFs --------------------------- */
+export type BatchEntryReport = {
+  source: string;
+  type: string | null;
+  status: "converted" | "passed-through" | "skipped" | "failed";
+  output: string | null;
+  pages: number | null;
+  durationMs: number;
+  error: string | null;
+  warnings?: string[];
+};
+
+export type BatchReport = {
+  source: string;
+  createdAt: string;
+  summary: Record<BatchEntryReport["status"], number> & { total: number };
+  entries: BatchEntryReport[];
+};
+
+function batchReport(source: string, entries: BatchEntryReport[]): BatchReport {
+  const summary = {
+    total: entries.length,
+    converted: 0,
+    "passed-through": 0,
+    skipped: 0,
+    failed: 0,
+  };
+  for (const e of entries) summary[e.status]++;
+  return { source, createdAt: new Date().toISOString(), summary, entries };
+}
+
+/** `path`, or `path` with a numeric suffix if the ZIP already has it. */
+export function uniqueEntryPath(out: Map<string, Uint8Array>, path: string) {
+  if (!out.has(path)) return path;
+  const ext = extname(path);
+  const stem = path.slice(0, path.length - ext.length);
+  let n = 2;
+  while (out.has(`${stem}-${n}${ext}`)) n++;
+  return `${stem}-${n}${ext}`;
+}
+
+export const BATCH_MANIFEST_NAME = "manifest.json";
+
+/**
+ * Archives carry junk like .DS_Store or Makefile, so entries are only
+ * converted when their bytes or a registered extension say what they are.
+ */
+function detectBatchEntry(data: Uint8Array, path: string) {
+  return detectConverter(data, { filename: path, textFallback: false });
+}
+
+/**
+ * Convert every entry independently: a failing entry is recorded in the
+ * manifest instead of failing the archive. PDFs and unsupported files are
+ * dropped unless `passthrough` is set, in which case they are copied as-is.
+ */
+async function convertZipEntries(
+  entries: Map<string, Uint8Array>,
+  filename: string,
+  options?: ConvertOptions,
+  failed: BatchEntryReport[] = []
+): Promise<ConvertOutput> {
+  const out = new Map<string, Uint8Array>();
+  const report: BatchEntryReport[] = [...failed];
+
+  for (const [path, data] of entries.entries()) {
+    if (path.endsWith("/")) continue;
+    const started = Date.now();
+    const conv = detectBatchEntry(data, path);
+    const entry: BatchEntryReport = {
+      source: path,
+      type: conv?.type ?? null,
+      status: "skipped",
+      output: null,
+      pages: null,
+      durationMs: 0,
+      error: null,
+    };
+    report.push(entry);
+
+    // Nested archives aren't recursed into; PDFs need no conversion.
+    if (!conv || conv.type === "pdf" || conv.type === "zip") {
+      if (options?.passthrough) {
+        entry.status = "passed-through";
+        entry.output = uniqueEntryPath(out, path);
+        entry.pages = conv?.type === "pdf" ? await countPdfPages(data) : null;
+        out.set(entry.output, data);
+      }
+      entry.durationMs = Date.now() - started;
+      continue;
+    }
+
+    try {
+      const res = await convertWith(conv, {
+        bytes: data,
+        filename: basename(path),
+        options,
+      });
+      const bytes = new Uint8Array(await Bun.file(res.path).arrayBuffer());
+      entry.status = "converted";
+      entry.output = uniqueEntryPath(
+        out,
+        outputPathFor(path, extname(res.filename))
+      );
+      entry.pages =
+        res.mime === "application/pdf" ? await countPdfPages(bytes) : null;
+      if (res.warnings) entry.warnings = res.warnings;
+      out.set(entry.output, bytes);
+    } catch (err) {
+      entry.status = "failed";
+      entry.error = describeError(err).message;
+    }
+    entry.durationMs = Date.now() - started;
+  }
+
+  out.set(
+    uniqueEntryPath(out, BATCH_MANIFEST_NAME),
+    new TextEncoder().encode(
+      JSON.stringify(batchReport(basename(filename), report), null, 2)
+    )
+  );
+  const format = options?.output ?? "pdf";
+  const outBase =
+    basename(filename, extname(filename)) +
+    (format === "pdf" ? "-pdfs" : `-${format}`);
+  return {
+    path: await zipFromMap_toPath(out, outBase),
+    filename: `${outBase}.zip`,
+    mime: "application/zip",
+  };
+}
+
+/* ------------------------------ ZIP → one PDF ----------------------------- */
+/** Optional manifest at the archive root fixing the merge order. */
+export const ZIP_ORDER_MANIFESTS = ["_order.json", "_order.txt"];
+
+const naturalCompare = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" });
+
+/**
+ * Entry paths in merge order: those named by `_order.json` (an array of
+ * paths, or `{ "order": [...] }`) or `_order.txt` (one path per line, `#`
+ * comments) first, then everything else in natural path order. A batch
+ * that already has its order passes it as `order`; its entries are all
+ * documents, whatever their names.
+ */
+export function orderZipEntries(
+  entries: Map<string, Uint8Array>,
+  order?: string[]
+): string[] {
+  if (order) return order.filter((p) => entries.has(p));
+  const paths = [...entries.keys()]
+    .filter((p) => !p.endsWith("/") && !ZIP_ORDER_MANIFESTS.includes(p))
+    .sort(naturalCompare);
+
+  let listed: string[] = [];
+  const json = entries.get("_order.json");
+  const txt = entries.get("_order.txt");
+  if (json) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(new TextDecoder().decode(json));
+    } catch {
+      throw new HTTPException(400, {
+        message: "_order.json is not valid JSON.",
+      });
+    }
+    const list = Array.isArray(parsed)
+      ? parsed
+      : isRecord(parsed)
+        ? parsed.order
+        : undefined;
+    if (!Array.isArray(list) || list.some((p) => typeof p !== "string"))
+      throw new HTTPException(400, {
+        message: "_order.json must be an array of entry paths.",
+      });
+    listed = list;
+  } else if (txt) {
+    listed = new TextDecoder()
+      .decode(txt)
+      .split(/\r?\n/)
+      .map((l) => l.trim())
+      .filter((l) => l && !l.startsWith("#"));
+  }
+
+  const known = new Set(paths);
+  const missing = listed.filter((p) => !known.has(p));
+  if (missing.length)
+    throw new HTTPException(400, {
+      message: `Order manifest lists missing entries: ${missing.join(", ")}.`,
+    });
+  const first = [...new Set(listed)];
+  return [...first, ...paths.filter((p) => !first.includes(p))];
+}
+
+/**
+ * Merge entries in order (see orderZipEntries). As with ZIP output, failing
+ * entries are left out and recorded; the report is attached to the PDF as
+ * manifest.json (except for PDF/A, which allows no attachments). Finishing
+ * is left to the caller.
+ */
+async function mergeZipEntries(
+  entries: Map<string, Uint8Array>,
+  filename: string,
+  options: ConvertOptions,
+  failed: BatchEntryReport[] = [],
+  order?: string[]
+): Promise<ConvertOutput> {
+  const entryOptions = partOptions(options);
+  const sources: { title: string; pdf: PDFDocument }[] = [];
+  const report: BatchEntryReport[] = [...failed];
+  for (const path of orderZipEntries(entries, order)) {
+    const data = entries.get(path)!;
+    const started = Date.now();
+    const conv = detectBatchEntry(data, path);
+    const entry: BatchEntryReport = {
+      source: path,
+      type: conv?.type ?? null,
+      status: "skipped",
+      output: null,
+      pages: null,
+      durationMs: 0,
+      error: null,
+    };
+    report.push(entry);
+    if (!conv || conv.type === "zip") continue;
+
+    const warnings: string[] = [];
+    try {
+      const pdf = await loadAsPdf({
+        bytes: data,
+        filename: basename(path),
+        options: entryOptions,
+        warnings,
+      });
+      sources.push({
+        title: path.slice(0, path.length - extname(path).length),
+        pdf,
+      });
+      entry.status = conv.type === "pdf" ? "passed-through" : "converted";
+      entry.pages = pdf.getPageCount();
+      if (warnings.length) entry.warnings = [...new Set(warnings)];
+    } catch (err) {
+      entry.status = "failed";
+      entry.error = describeError(err).message;
+    }
+    entry.durationMs = Date.now() - started;
+  }
+  if (!sources.length)
+    throw new HTTPException(422, {
+      message: "The archive contains no convertible documents.",
+    });
+
+  const merged = await mergePdfs(sources, {
+    bookmarks: true,
+    toc: options.toc,
+  });
+  if (!options.pdfa)
+    await merged.attach(
+      new TextEncoder().encode(
+        JSON.stringify(batchReport(basename(filename), report), null, 2)
+      ),
+      BATCH_MANIFEST_NAME,
+      { mimeType: "application/json", description: "Conversion report" }
+    );
+  const stem = basename(filename, extname(filename)) + "-merged";
+  return {
+    path: await savePdf_toPath(merged, stem),
+    filename: `${stem}.pdf`,
+    mime: "application/pdf",
+    warnings: options.pdfa
+      ? [
+          `PDF/A-2b: ${BATCH_MANIFEST_NAME} was not attached (no attachments allowed).`,
+        ]
+      : undefined,
+  };
+}
+
 /* ------------------------------ Common CSS ------------------------------- */
 export const BASE_CSS = `
   body{font-family:"Liberation Serif","DejaVu Serif",serif;font-size:12pt;line-height:1.35}
@@ -0,0 +1,80 @@
+// src/docx.ts
+import { HTTPException } from "hono/http-exception";
+import mammoth from "mammoth";
+import { join } from "path";
+import { timeStage } from "./metrics";
+import { DocxOptions } from "./options";
+
+/* ------------------------------- Constants -------------------------------- */
+// Named style maps: <dir>/<profile>.txt, in mammoth's style map syntax.
+export const DOCX_STYLE_MAPS_DIR =
+  process.env.DOCX_STYLE_MAPS_DIR || join(process.cwd(), "style-maps");
+
+// What wkhtmltopdf can draw; EMF/WMF/TIFF from Office would come out blank.
+const RENDERABLE_IMAGE_TYPES = new Set([
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/bmp",
+  "image/svg+xml",
+  "image/webp",
+]);
+
+/* ------------------------------- Style maps ------------------------------- */
+/** Lines of the named profile; 400 for names that don't exist. */
+export async function loadStyleProfile(name: string): Promise<string[]> {
+  const file =
+    /^[\w-]+$/.test(name) && Bun.file(join(DOCX_STYLE_MAPS_DIR, `${name}.txt`));
+  if (!file || !(await file.exists()))
+    throw new HTTPException(400, {
+      message: `Unknown style map profile "${name}".`,
+    });
+  return (await file.text()).split(/\r?\n/);
+}
+
+/** Profile lines first, so per-request rules override them. */
+async function styleMapFor(options: DocxOptions | undefined) {
+  const profile = options?.styleProfile
+    ? await loadStyleProfile(options.styleProfile)
+    : [];
+  return [...profile, ...(options?.styleMap ?? [])]
+    .map((l) => l.trim())
+    .filter((l) => l && !l.startsWith("#"));
+}
+
+/* ------------------------------- Conversion ------------------------------- */
+/**
+ * DOCX body HTML via mammoth. Images are inlined as data URIs (ones the
+ * renderer can't draw are dropped with a warning), and every mammoth
+ * message — unmapped styles, unsupported elements — is pushed to
+ * `warnings`.
+ */
+export async function docxToHtml(
+  bytes: Uint8Array,
+  options: DocxOptions | undefined,
+  warnings: string[] = []
+): Promise<string> {
+  const convertImage = mammoth.images.imgElement(async (image) => {
+    if (!RENDERABLE_IMAGE_TYPES.has(image.contentType)) {
+      warnings.push(
+        `Image of type ${image.contentType || "unknown"} can't be rendered and was left out.`
+      );
+      return { src: "" };
+    }
+    return {
+      src: `data:${image.contentType};base64,${await image.read("base64")}`,
+    };
+  });
+  const styleMap = await styleMapFor(options);
+  const result = await timeStage("mammoth", () =>
+    mammoth.convertToHtml(
+      { buffer: Buffer.from(bytes) },
+      { styleMap, convertImage, externalFileAccess: false }
+    )
+  );
+  for (const m of result.messages)
+    // Already reported above, saying the image was left out.
+    if (!/^Image of type .* is unlikely to display/.test(m.message))
+      warnings.push(m.message);
+  return result.value.replace(/<img\b[^>]*\ssrc=""[^>]*>/g, "");
+}
@@ -0,0 +1,132 @@
+// src/egress-proxy.ts
+import { HTTPException } from "hono/http-exception";
+import { AddressInfo, Server, Socket, connect, createServer } from "net";
+import { logJson } from "./logging";
+import { assertUrlAllowed } from "./url-policy";
+
+/* ------------------------------- Constants -------------------------------- */
+const MAX_HEAD_BYTES = 64 * 1024;
+// Hop-by-hop headers the proxy replaces with its own `Connection: close`.
+const HOP_HEADERS_RE =
+  /^(connection|proxy-connection|keep-alive|proxy-authorization):/i;
+
+/* --------------------------------- Proxy ---------------------------------- */
+/**
+ * A loopback HTTP proxy that wkhtmltopdf uses in capture mode, so every
+ * request a rendered page makes — stylesheets, images, scripts, XHR — is
+ * checked against the same URL policy as /convert/url. Plain HTTP requests
+ * are forwarded one per connection; HTTPS goes through CONNECT tunnels.
+ * Upstream connections go to the address the policy resolved, so a host
+ * cannot rebind to a private address between the check and the connect.
+ * Each render gets its own listener, so refusals are logged against the
+ * request that caused them.
+ */
+export type EgressProxy = {
+  /** `http://127.0.0.1:<port>` */
+  url: string;
+  /** Stop accepting connections; open tunnels end with the render. */
+  close: () => void;
+};
+
+export function startEgressProxy(requestId?: string): Promise<EgressProxy> {
+  return new Promise((resolve, reject) => {
+    const server: Server = createServer((client) =>
+      handleClient(client, requestId)
+    );
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      server.unref();
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        close: () => server.close(),
+      });
+    });
+  });
+}
+
+function reply(client: Socket, status: number, message: string) {
+  const body = `${message}\n`;
+  client.end(
+    `HTTP/1.1 ${status} ${status === 403 ? "Forbidden" : "Proxy Error"}\r\n` +
+      `Content-Type: text/plain\r\nContent-Length: ${Buffer.byteLength(body)}\r\n` +
+      `Connection: close\r\n\r\n${body}`
+  );
+}
+
+function handleClient(client: Socket, requestId?: string) {
+  let head = Buffer.alloc(0);
+  client.on("error", () => client.destroy());
+  const onData = (chunk: Buffer) => {
+    head = Buffer.concat([head, chunk]);
+    const end = head.indexOf("\r\n\r\n");
+    if (end === -1) {
+      if (head.length > MAX_HEAD_BYTES)
+        reply(client, 431, "Headers too large.");
+      return;
+    }
+    client.off("data", onData);
+    client.pause();
+    route(client, head.subarray(0, end + 4), head.subarray(end + 4)).catch(
+      (err) => {
+        const status = err instanceof HTTPException ? err.status : 502;
+        logJson("WARNING", `Egress refused: ${(err as Error).message}`, {
+          requestId,
+          egress: { status },
+        });
+        reply(client, status, (err as Error).message);
+      }
+    );
+  };
+  client.on("data", onData);
+}
+
+async function route(client: Socket, head: Buffer, rest: Buffer) {
+  const lines = head.toString("latin1").split("\r\n").filter(Boolean);
+  const [method, target, version] = lines[0].split(" ");
+
+  if (method === "CONNECT") {
+    const url = new URL(`https://${target}`);
+    const [address] = await assertUrlAllowed(url);
+    const upstream = connect(Number(url.port || 443), address, () => {
+      client.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+      if (rest.length) upstream.write(rest);
+      client.pipe(upstream).on("error", () => upstream.destroy());
+      upstream.pipe(client);
+      client.resume();
+    });
+    upstream.on("error", () => client.destroy());
+    client.on("close", () => upstream.destroy());
+    return;
+  }
+
+  const url = new URL(target);
+  if (url.protocol !== "http:")
+    return reply(client, 400, "Only absolute http:// request targets.");
+  if (lines.some((l) => /^transfer-encoding:/i.test(l)))
+    return reply(client, 501, "Chunked request bodies are not supported.");
+  const [address] = await assertUrlAllowed(url);
+
+  const headers = lines.slice(1).filter((l) => !HOP_HEADERS_RE.test(l));
+  const request =
+    `${method} ${url.pathname}${url.search} ${version}\r\n` +
+    `${headers.join("\r\n")}\r\nConnection: close\r\n\r\n`;
+  // Forward exactly one request body; anything after it is not ours to send.
+  let remaining = Number(
+    /^content-length:\s*(\d+)/im.exec(head.toString("latin1"))?.[1] || 0
+  );
+  const upstream = connect(Number(url.port || 80), address, () => {
+    upstream.write(request);
+    const forward = (chunk: Buffer) => {
+      if (remaining <= 0) return;
+      upstream.write(chunk.subarray(0, remaining));
+      remaining -= chunk.length;
+    };
+    forward(rest);
+    client.on("data", forward);
+    client.resume();
+    upstream.pipe(client);
+  });
+  upstream.on("error", () => client.destroy());
+  client.on("close", () => upstream.destroy());
+}
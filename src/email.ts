@@ -0,0 +1,222 @@
+// src/email.ts
+import MsgReader from "@kenjiuno/msgreader";
+import { HTTPException } from "hono/http-exception";
+import PostalMime, { Address } from "postal-mime";
+import { sanitizeFragment } from "./outputs";
+
+/* --------------------------------- Types ---------------------------------- */
+export type EmailAttachment = {
+  filename: string;
+  mime: string;
+  content: Uint8Array;
+  /** Referenced from the HTML body (cid: image) rather than attached. */
+  inline: boolean;
+};
+
+/** The parts of a message we render, from either .eml or Outlook .msg. */
+export type EmailMessage = {
+  from: string | null;
+  to: string | null;
+  cc: string | null;
+  date: string | null;
+  subject: string | null;
+  html: string | null;
+  text: string | null;
+  attachments: EmailAttachment[];
+};
+
+/* -------------------------------- Helpers --------------------------------- */
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+function formatAddresses(list: Address[] | undefined): string | null {
+  const mailbox = (name: string, address?: string) =>
+    name && address ? `${name} <${address}>` : name || address || "";
+  const out = (list ?? [])
+    .map((a) =>
+      a.group
+        ? `${a.name}: ${a.group.map((m) => mailbox(m.name, m.address)).join(", ")};`
+        : mailbox(a.name, a.address)
+    )
+    .filter(Boolean)
+    .join(", ");
+  return out || null;
+}
+
+function formatDate(value: string | undefined | null) {
+  if (!value) return null;
+  const d = new Date(value);
+  return isNaN(d.getTime()) ? value : d.toUTCString();
+}
+
+/**
+ * Point cid: references in the HTML body at data URIs of the matching
+ * parts, and flag those parts as inline so they aren't listed again.
+ */
+function inlineCidImages(
+  html: string,
+  parts: { contentId?: string; attachment: EmailAttachment }[]
+) {
+  const byCid = new Map(
+    parts
+      .filter((p) => p.contentId)
+      .map((p) => [p.contentId!.replace(/^<|>$/g, "").toLowerCase(), p])
+  );
+  return html.replace(/(["'])cid:([^"']+)\1/gi, (m, quote, cid: string) => {
+    const part = byCid.get(decodeURIComponent(cid).toLowerCase());
+    if (!part) return m;
+    const { mime, content } = part.attachment;
+    part.attachment.inline = true;
+    return `${quote}data:${mime};base64,${Buffer.from(content).toString("base64")}${quote}`;
+  });
+}
+
+/* -------------------------------- Parsing --------------------------------- */
+/** RFC 5322 message (.eml), MIME parts decoded. */
+export async function parseEml(bytes: Uint8Array): Promise<EmailMessage> {
+  const mail = await PostalMime.parse(bytes, {
+    attachmentEncoding: "arraybuffer",
+  });
+  const parts = mail.attachments.map((a, i) => ({
+    contentId: a.contentId,
+    attachment: {
+      filename: a.filename || `attachment-${i + 1}`,
+      mime: a.mimeType || "application/octet-stream",
+      content:
+        typeof a.content === "string"
+          ? new TextEncoder().encode(a.content)
+          : new Uint8Array(a.content),
+      inline: false,
+    },
+  }));
+  return {
+    from: formatAddresses(mail.from && [mail.from]),
+    to: formatAddresses(mail.to),
+    cc: formatAddresses(mail.cc),
+    date: formatDate(mail.date),
+    subject: mail.subject || null,
+    html: mail.html ? inlineCidImages(mail.html, parts) : null,
+    text: mail.text || null,
+    attachments: parts.map((p) => p.attachment),
+  };
+}
+
+function openMsg(bytes: Uint8Array) {
+  try {
+    const reader = new MsgReader(
+      new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    );
+    const msg = reader.getFileData();
+    if (!msg.error && msg.dataType === "msg") return { reader, msg };
+  } catch {}
+  throw new HTTPException(422, {
+    message: "File is not a readable Outlook message.",
+  });
+}
+
+/** Outlook message (.msg, a CFB compound file). */
+export function parseMsg(bytes: Uint8Array): EmailMessage {
+  const { reader, msg } = openMsg(bytes);
+  const recipients = (type: "to" | "cc") =>
+    (msg.recipients ?? [])
+      .filter((r) => (r.recipType ?? "to") === type)
+      .map((r) => {
+        const address = r.smtpAddress || r.email;
+        return r.name && address && r.name !== address
+          ? `${r.name} <${address}>`
+          : r.name || address || "";
+      })
+      .filter(Boolean)
+      .join(", ") || null;
+  const sender = msg.senderEmail || msg.senderSmtpAddress;
+  const parts = (msg.attachments ?? []).map((a, i) => {
+    const { fileName, content } = reader.getAttachment(a);
+    return {
+      contentId: a.pidContentId,
+      attachment: {
+        filename: fileName || a.name || `attachment-${i + 1}`,
+        mime: a.attachMimeTag || "application/octet-stream",
+        content,
+        inline: false,
+      },
+    };
+  });
+  const html =
+    msg.bodyHtml || (msg.html ? new TextDecoder().decode(msg.html) : null);
+  return {
+    from:
+      msg.senderName && sender && msg.senderName !== sender
+        ? `${msg.senderName} <${sender}>`
+        : msg.senderName || sender || null,
+    to: recipients("to"),
+    cc: recipients("cc"),
+    date: formatDate(msg.clientSubmitTime || msg.messageDeliveryTime),
+    subject: msg.subject || null,
+    html: html ? inlineCidImages(html, parts) : null,
+    text: msg.body || null,
+    attachments: parts.map((p) => p.attachment),
+  };
+}
+
+/* ------------------------------- Rendering -------------------------------- */
+export const EMAIL_CSS = `
+  table.email-headers{width:auto;margin-bottom:1em} table.email-headers td,
+  table.email-headers th{border:none;padding:2px 8px 2px 0;vertical-align:top;text-align:left}
+  .email-body{border-top:1px solid #999;padding-top:0.8em}
+  pre.email-text{white-space:pre-wrap;word-wrap:break-word;font-family:inherit}
+  .email-attachments{border-top:1px solid #999;margin-top:1.5em;font-size:10pt}
+`;
+
+function formatSize(bytes: number) {
+  return bytes < 1024
+    ? `${bytes} B`
+    : bytes < 1024 * 1024
+      ? `${(bytes / 1024).toFixed(1)} KB`
+      : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Body HTML: a From/To/Cc/Date/Subject block, the message body, and the
+ * attachments listed by name, type and size. `notes` adds a remark per
+ * attachment, e.g. whether its pages were appended.
+ */
+export function emailToHtml(
+  mail: EmailMessage,
+  notes = new Map<EmailAttachment, string>()
+): string {
+  const headers = (
+    [
+      ["From", mail.from],
+      ["To", mail.to],
+      ["Cc", mail.cc],
+      ["Date", mail.date],
+      ["Subject", mail.subject],
+    ] as const
+  )
+    .filter(([, v]) => v)
+    .map(([k, v]) => `<tr><th>${k}:</th><td>${escapeHtml(v!)}</td></tr>`)
+    .join("");
+  const body = mail.html
+    ? sanitizeFragment(mail.html)
+    : `<pre class="email-text">${escapeHtml(mail.text ?? "")}</pre>`;
+  const listed = mail.attachments.filter((a) => !a.inline);
+  const attachments = listed.length
+    ? `<div class="email-attachments"><h3>Attachments (${listed.length})</h3><ul>` +
+      listed
+        .map((a) => {
+          const note = notes.get(a);
+          return (
+            `<li>${escapeHtml(a.filename)} — ${escapeHtml(a.mime)}, ${formatSize(a.content.length)}` +
+            (note ? ` <em>(${escapeHtml(note)})</em>` : "") +
+            `</li>`
+          );
+        })
+        .join("") +
+      `</ul></div>`
+    : "";
+  return (
+    (mail.subject ? `<h2>${escapeHtml(mail.subject)}</h2>` : "") +
+    `<table class="email-headers">${headers}</table>` +
+    `<div class="email-body">${body}</div>${attachments}`
+  );
+}
@@ -0,0 +1,128 @@
+// src/epub.ts
+import { HTTPException } from "hono/http-exception";
+import { posix } from "path";
+import { sanitizeFragment } from "./outputs";
+import { childElements, findElement, parseXml, textContent } from "./xml";
+
+/* --------------------------------- Types ---------------------------------- */
+export type EpubBook = {
+  title: string | null;
+  author: string | null;
+  /** Body HTML, one sanitized fragment per spine document. */
+  chapters: string[];
+};
+
+/* -------------------------------- Helpers --------------------------------- */
+const CHAPTER_TYPES = new Set(["application/xhtml+xml", "text/html"]);
+
+function requireFile(files: Map<string, Uint8Array>, path: string) {
+  const data = files.get(path);
+  if (!data)
+    throw new HTTPException(422, {
+      message: `EPUB package is missing ${path}.`,
+    });
+  return new TextDecoder().decode(data);
+}
+
+/** Resolve an href found in `from` to a package path. */
+function resolveHref(from: string, href: string) {
+  let path = href.split("#")[0];
+  try {
+    path = decodeURIComponent(path);
+  } catch {}
+  return posix.normalize(posix.join(posix.dirname(from), path));
+}
+
+/**
+ * Package images referenced by a chapter become data URIs, since the
+ * rendered HTML has no package directory to load them from.
+ */
+function inlineImages(
+  html: string,
+  chapterPath: string,
+  files: Map<string, Uint8Array>,
+  types: Map<string, string>
+) {
+  return html.replace(
+    /(<img\b[^>]*?\ssrc\s*=\s*|<image\b[^>]*?\s(?:xlink:)?href\s*=\s*)(["'])([^"']*)\2/gi,
+    (m, prefix: string, quote: string, href: string) => {
+      if (/^[a-z][\w+.-]*:/i.test(href)) return m;
+      const path = resolveHref(chapterPath, href);
+      const data = files.get(path);
+      const mime = types.get(path);
+      if (!data || !mime?.startsWith("image/")) return m;
+      const uri = `data:${mime};base64,${Buffer.from(data).toString("base64")}`;
+      // SVG-wrapped covers use <image>; the sanitizer keeps only <img>.
+      return prefix.startsWith("<image")
+        ? `<img src=${quote}${uri}${quote}`
+        : `${prefix}${quote}${uri}${quote}`;
+    }
+  );
+}
+
+/* --------------------------------- Public --------------------------------- */
+/**
+ * Read an EPUB (2 or 3) from its unpacked files: the OPF package named by
+ * META-INF/container.xml gives the metadata, and its spine the reading order.
+ */
+export function readEpub(files: Map<string, Uint8Array>): EpubBook {
+  const container = parseXml(
+    requireFile(files, "META-INF/container.xml"),
+    "EPUB container.xml"
+  );
+  const opfPath = findElement(container, "rootfile")?.attrs["full-path"];
+  if (!opfPath)
+    throw new HTTPException(422, {
+      message: "EPUB container.xml names no package document.",
+    });
+  const opf = parseXml(requireFile(files, opfPath), `EPUB ${opfPath}`);
+
+  const items = new Map<string, string>();
+  const types = new Map<string, string>();
+  const manifest = findElement(opf, "manifest");
+  for (const item of manifest ? childElements(manifest, "item") : []) {
+    const path = resolveHref(opfPath, item.attrs.href || "");
+    items.set(item.attrs.id, path);
+    types.set(path, item.attrs["media-type"] || "");
+  }
+
+  const chapters: string[] = [];
+  const spine = findElement(opf, "spine");
+  for (const ref of spine ? childElements(spine, "itemref") : []) {
+    const path = items.get(ref.attrs.idref);
+    if (!path || !CHAPTER_TYPES.has(types.get(path) ?? "")) continue;
+    const html = inlineImages(requireFile(files, path), path, files, types);
+    chapters.push(sanitizeFragment(html));
+  }
+  if (!chapters.length)
+    throw new HTTPException(422, {
+      message: "EPUB spine lists no readable documents.",
+    });
+
+  const metadata = findElement(opf, "metadata");
+  const meta = (name: string) => {
+    const el = metadata && findElement(metadata, name);
+    return (el && textContent(el).trim()) || null;
+  };
+  return { title: meta("title"), author: meta("creator"), chapters };
+}
+
+export const EPUB_CSS = `
+  .chapter+.chapter{page-break-before:always}
+  .title-page{text-align:center;padding-top:30%} img{max-width:100%}
+`;
+
+/** Body HTML: a title page when the book has a title, then the chapters. */
+export function epubToHtml(book: EpubBook): string {
+  const esc = (s: string) =>
+    s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  const titlePage = book.title
+    ? `<div class="chapter title-page"><h1>${esc(book.title)}</h1>` +
+      (book.author ? `<p>${esc(book.author)}</p>` : "") +
+      `</div>`
+    : "";
+  return (
+    titlePage +
+    book.chapters.map((c) => `<div class="chapter">${c}</div>`).join("")
+  );
+}
@@ -0,0 +1,416 @@
+// src/jobs.ts
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import { mkdir, readdir, rename, rm, stat } from "fs/promises";
+import { HTTPException } from "hono/http-exception";
+import { join } from "path";
+import { recordUsage } from "./auth";
+import {
+  ConvertOutput,
+  TEMP_DIR,
+  UrlRequest,
+  convertDetected,
+  convertUrls,
+  describeError,
+  enforceFileLimit,
+  readConvertOptions,
+  readUrlRequest,
+  streamFile,
+} from "./convert";
+import { logJson, runWithRequestId } from "./logging";
+import { runWithRoute } from "./metrics";
+import { ConvertOptions } from "./options";
+import { assertUrlAllowed, parseUrl } from "./url-policy";
+import {
+  CallbackTarget,
+  notifyCallback,
+  publicBaseUrl,
+  readCallback,
+} from "./webhooks";
+import { TempWorkspace, registerSweepTask, runInWorkspace } from "./workspace";
+
+/* ------------------------------- Constants -------------------------------- */
+export const JOBS_DIR =
+  process.env.JOBS_DIR || join(TEMP_DIR, "brightline-jobs");
+export const JOB_CONCURRENCY = Math.max(
+  1,
+  Number(process.env.JOB_CONCURRENCY || 2)
+);
+// Finished jobs (and the results kept for callbacks) are deleted this long
+// after they finish.
+export const JOB_TTL_MS = Number(process.env.JOB_TTL_MS || 24 * 60 * 60 * 1000);
+// Encrypts callback secrets in job.json (32 bytes, base64). Without it a key
+// is made per process, so jobs resumed after a restart lose their secret.
+const JOB_SECRET_KEY = process.env.JOB_SECRET_KEY
+  ? Buffer.from(process.env.JOB_SECRET_KEY, "base64")
+  : randomBytes(32);
+if (JOB_SECRET_KEY.length !== 32)
+  throw new Error("JOB_SECRET_KEY must be 32 bytes, base64-encoded.");
+
+/* --------------------------------- Types ---------------------------------- */
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export type JobSource =
+  | { kind: "file"; filename: string; contentType: string | null }
+  // Fetch headers are kept so the job can run after a restart, and dropped
+  // once it has finished; publicJob never returns their values.
+  | ({ kind: "url" } & UrlRequest)
+  | { kind: "request"; route: string };
+
+export type Job = {
+  id: string;
+  status: JobStatus;
+  source: JobSource;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  result?: {
+    filename: string;
+    mime: string;
+    size: number;
+    warnings?: string[];
+  };
+  error?: { status: number; message: string };
+  options?: ConvertOptions;
+  /**
+   * In job.json `secret` is always null; until the job finishes it is kept
+   * encrypted as `sealedSecret`.
+   */
+  callback?: CallbackTarget & { downloadUrl: string; sealedSecret?: string };
+  /** Id of the API key that created the job; only it can see the job. */
+  apiKey?: string;
+  /** X-Request-Id of the request that created the job, for its logs. */
+  requestId?: string;
+};
+
+/* ------------------------------ File store -------------------------------- */
+// Each job lives in JOBS_DIR/<id>/ as job.json plus its input and result
+// files, so queued work and finished results survive a restart.
+const jobDir = (id: string) => join(JOBS_DIR, id);
+const inputPath = (id: string) => join(jobDir(id), "input");
+export const resultPath = (id: string) => join(jobDir(id), "result");
+
+const isFinished = (job: Job) =>
+  job.status === "succeeded" || job.status === "failed";
+
+/**
+ * Fetch headers (tokens, passwords, cookies), capture cookies and the
+ * callback secret are only needed until the job has run, so finished jobs
+ * are stored without them.
+ */
+function withoutCredentials(job: Job): Job {
+  if (!isFinished(job)) return job;
+  const { source, options, callback } = job;
+  return {
+    ...job,
+    source: source.kind === "url" ? { ...source, headers: {} } : source,
+    options: options?.capture
+      ? { ...options, capture: { ...options.capture, cookies: {} } }
+      : options,
+    callback: callback && {
+      url: callback.url,
+      secret: null,
+      downloadUrl: callback.downloadUrl,
+    },
+  };
+}
+
+/** AES-256-GCM: base64 of IV, auth tag and ciphertext. */
+function sealSecret(secret: string) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", JOB_SECRET_KEY, iv);
+  const data = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), data]).toString("base64");
+}
+
+/** The sealed secret, or null when another key sealed it. */
+function openSecret(sealed: string): string | null {
+  const raw = Buffer.from(sealed, "base64");
+  try {
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      JOB_SECRET_KEY,
+      raw.subarray(0, 12)
+    );
+    decipher.setAuthTag(raw.subarray(12, 28));
+    return Buffer.concat([
+      decipher.update(raw.subarray(28)),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    return null;
+  }
+}
+
+async function saveJob(job: Job) {
+  let stored = withoutCredentials(job);
+  const { callback } = stored;
+  if (callback?.secret)
+    stored = {
+      ...stored,
+      callback: {
+        ...callback,
+        secret: null,
+        sealedSecret: sealSecret(callback.secret),
+      },
+    };
+  const path = join(jobDir(job.id), "job.json");
+  const tmp = `${path}.${Math.random().toString(36).slice(2)}.tmp`;
+  await Bun.write(tmp, JSON.stringify(stored, null, 2));
+  await rename(tmp, path);
+}
+
+/** Job as returned to API callers; never echoes the callback secret. */
+export function publicJob(job: Job) {
+  const { callback, apiKey, ...rest } = job;
+  if (rest.source.kind === "url")
+    rest.source = {
+      ...rest.source,
+      headers: Object.fromEntries(
+        Object.keys(rest.source.headers).map((k) => [k, "[redacted]"])
+      ),
+    };
+  return callback ? { ...rest, callbackUrl: callback.url } : rest;
+}
+
+export async function getJob(id: string): Promise<Job | null> {
+  if (!/^[\w-]+$/.test(id)) return null;
+  const f = Bun.file(join(jobDir(id), "job.json"));
+  if (!(await f.exists())) return null;
+  const job = (await f.json()) as Job;
+  if (job.callback?.sealedSecret)
+    job.callback.secret = openSecret(job.callback.sealedSecret);
+  return job;
+}
+
+/* -------------------------------- Runner ---------------------------------- */
+const queue: string[] = [];
+let running = 0;
+
+function enqueue(id: string) {
+  queue.push(id);
+  drain();
+}
+
+function drain() {
+  while (running < JOB_CONCURRENCY && queue.length) {
+    const id = queue.shift()!;
+    running++;
+    runJob(id).finally(() => {
+      running--;
+      drain();
+    });
+  }
+}
+
+async function execute(job: Job): Promise<ConvertOutput> {
+  if (job.source.kind === "url") return convertUrls(job.source, job.options);
+  if (job.source.kind !== "file")
+    throw new Error(`Job source "${job.source.kind}" cannot be re-run`);
+  const path = inputPath(job.id);
+  const bytes = new Uint8Array(await Bun.file(path).arrayBuffer());
+  return convertDetected(
+    { bytes, filename: job.source.filename, options: job.options },
+    job.source.contentType
+  );
+}
+
+// Everything a job logs, its callback included, carries the id of the
+// request that created it.
+async function runJob(id: string) {
+  let requestId: string | undefined;
+  try {
+    const job = await getJob(id);
+    if (!job || isFinished(job)) return;
+    requestId = job.requestId;
+    await runWithRequestId(requestId, () => processJob(job));
+  } catch (err) {
+    logJson("ERROR", `Job ${id} crashed: ${(err as Error).message}`, {
+      requestId,
+      jobId: id,
+      stack: (err as Error).stack,
+    });
+  }
+}
+
+async function processJob(job: Job) {
+  const { id } = job;
+  job.status = "running";
+  job.startedAt = new Date().toISOString();
+  await saveJob(job);
+
+  const ws = new TempWorkspace();
+  try {
+    const out = await runWithRoute("/jobs", () =>
+      runInWorkspace(ws, () => execute(job))
+    );
+    await Bun.write(resultPath(id), Bun.file(out.path));
+    job.status = "succeeded";
+    job.result = {
+      filename: out.filename,
+      mime: out.mime,
+      size: Bun.file(resultPath(id)).size,
+      warnings: out.warnings,
+    };
+    if (job.apiKey)
+      await recordUsage(job.apiKey, { path: resultPath(id), mime: out.mime });
+  } catch (err) {
+    job.status = "failed";
+    job.error = describeError(err);
+  } finally {
+    await ws.cleanup();
+  }
+  job.finishedAt = new Date().toISOString();
+  await saveJob(job);
+
+  if (job.callback?.sealedSecret && !job.callback.secret) {
+    // Sealed by an earlier process with its own key; an unsigned callback
+    // would be refused by a receiver that checks signatures.
+    logJson(
+      "WARNING",
+      `Job ${id}: callback secret unreadable after a restart; set JOB_SECRET_KEY to keep it. Callback not sent.`,
+      { requestId: job.requestId, jobId: id }
+    );
+  } else if (job.callback) {
+    const { downloadUrl, sealedSecret, ...target } = job.callback;
+    notifyCallback(target, {
+      jobId: id,
+      output: job.result && { path: resultPath(id), ...job.result },
+      downloadUrl,
+      error: job.error,
+    });
+  }
+}
+
+/**
+ * Keep the output of a synchronous conversion as a succeeded job, so it can
+ * be re-downloaded from /jobs/:id/result (e.g. via a callback's link).
+ */
+export async function storeCompletedJob(
+  out: ConvertOutput,
+  source: JobSource,
+  apiKey?: string
+): Promise<Job> {
+  const id = crypto.randomUUID();
+  await mkdir(jobDir(id), { recursive: true });
+  await Bun.write(resultPath(id), Bun.file(out.path));
+  const now = new Date().toISOString();
+  const job: Job = {
+    id,
+    status: "succeeded",
+    source,
+    createdAt: now,
+    startedAt: now,
+    finishedAt: now,
+    result: {
+      filename: out.filename,
+      mime: out.mime,
+      size: Bun.file(resultPath(id)).size,
+      warnings: out.warnings,
+    },
+    apiKey,
+  };
+  await saveJob(job);
+  return job;
+}
+
+export function jobResultUrl(c: any, id: string) {
+  return `${publicBaseUrl(c)}/jobs/${id}/result`;
+}
+
+/** Re-queue jobs that were queued or mid-run when the process last stopped. */
+export async function resumeJobs() {
+  await mkdir(JOBS_DIR, { recursive: true });
+  const pending: Job[] = [];
+  for (const id of await readdir(JOBS_DIR)) {
+    const job = await getJob(id).catch(() => null);
+    if (job && (job.status === "queued" || job.status === "running"))
+      pending.push(job);
+  }
+  pending.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  for (const job of pending) enqueue(job.id);
+  return pending.length;
+}
+
+/**
+ * Delete finished jobs older than `ttlMs`, and directories without a
+ * readable job.json (an interrupted write) once they are as old.
+ */
+export async function sweepJobs(ttlMs = JOB_TTL_MS) {
+  const cutoff = Date.now() - ttlMs;
+  let removed = 0;
+  for (const id of await readdir(JOBS_DIR).catch(() => [])) {
+    const job = await getJob(id).catch(() => null);
+    const finishedAt = job
+      ? isFinished(job) && job.finishedAt
+        ? Date.parse(job.finishedAt)
+        : Infinity
+      : ((await stat(jobDir(id)).catch(() => null))?.mtimeMs ?? Infinity);
+    if (finishedAt > cutoff) continue;
+    await rm(jobDir(id), { recursive: true, force: true }).catch(() => {});
+    removed++;
+  }
+  if (removed)
+    logJson("INFO", `Removed ${removed} expired job(s)`, {
+      sweeper: { jobs: removed },
+    });
+  return removed;
+}
+
+registerSweepTask(() => sweepJobs());
+
+/* ---------------------------- Request helpers ----------------------------- */
+/** Accepts multipart file=<any supported type>, or a URL via JSON/form. */
+export async function createJobFromRequest(c: any): Promise<Job> {
+  const id = crypto.randomUUID();
+  const ct = c.req.header("content-type") || "";
+  const maybeFile = ct.startsWith("multipart/form-data")
+    ? (await c.req.formData()).get("file")
+    : null;
+
+  const callback = await readCallback(c);
+  const options = await readConvertOptions(c);
+  let source: JobSource;
+  if (maybeFile instanceof File) {
+    enforceFileLimit(maybeFile);
+    source = {
+      kind: "file",
+      filename: maybeFile.name || "document",
+      contentType: maybeFile.type || null,
+    };
+  } else {
+    const request = await readUrlRequest(c);
+    // Refuse disallowed URLs up front rather than when the job runs.
+    for (const url of request.urls) await assertUrlAllowed(parseUrl(url));
+    source = { kind: "url", ...request };
+  }
+
+  await mkdir(jobDir(id), { recursive: true });
+  if (maybeFile instanceof File) await Bun.write(inputPath(id), maybeFile);
+  const job: Job = {
+    id,
+    status: "queued",
+    source,
+    options,
+    createdAt: new Date().toISOString(),
+    apiKey: c.get("apiKey")?.id,
+    requestId: c.get("requestId"),
+  };
+  if (callback)
+    job.callback = { ...callback, downloadUrl: jobResultUrl(c, id) };
+  await saveJob(job);
+  enqueue(id);
+  return job;
+}
+
+export function streamJobResult(job: Job) {
+  if (job.status !== "succeeded" || !job.result)
+    throw new HTTPException(409, {
+      message: `Job is ${job.status}; no result available.`,
+    });
+  return streamFile(
+    resultPath(job.id),
+    job.result.filename,
+    job.result.mime,
+    job.result.warnings
+  );
+}
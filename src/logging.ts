@@ -0,0 +1,42 @@
+// src/logging.ts
+import { AsyncLocalStorage } from "async_hooks";
+
+/* ------------------------------- Constants -------------------------------- */
+// ACCESS_LOG=off silences the per-request lines (errors are still logged).
+export const ACCESS_LOG = process.env.ACCESS_LOG !== "off";
+
+/* --------------------------------- Types ---------------------------------- */
+export type LogSeverity = "DEBUG" | "INFO" | "WARNING" | "ERROR";
+
+/* -------------------------------- Logging --------------------------------- */
+/**
+ * One JSON object per line, with the `severity` / `message` fields that
+ * Cloud Logging (and most collectors) pick up without configuration.
+ */
+export function logJson(
+  severity: LogSeverity,
+  message: string,
+  fields: Record<string, unknown> = {}
+) {
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    severity,
+    message,
+    ...fields,
+  });
+  if (severity === "ERROR") console.error(line);
+  else console.log(line);
+}
+
+// The X-Request-Id of the request (or job) the current code runs for, so
+// logs written deep inside a conversion can carry it.
+const currentRequest = new AsyncLocalStorage<string | undefined>();
+
+export function runWithRequestId<T>(
+  requestId: string | undefined,
+  fn: () => T
+) {
+  return currentRequest.run(requestId, fn);
+}
+
+export const currentRequestId = () => currentRequest.getStore();
@@ -0,0 +1,272 @@
+// src/metrics.ts
+import { AsyncLocalStorage } from "async_hooks";
+
+/* ------------------------------- Constants -------------------------------- */
+const PREFIX = "brightline_";
+const DURATION_BUCKETS = [
+  0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120,
+];
+const BYTE_BUCKETS = [1e3, 1e4, 1e5, 1e6, 1e7, 5e7, 1e8];
+
+/* --------------------------------- Types ---------------------------------- */
+export type ConversionOutcome = "succeeded" | "cached" | "rejected" | "failed";
+
+type Labels = Record<string, string>;
+
+/** What the registry needs from a metric: its exposition lines. */
+interface RenderedMetric {
+  render(): string[];
+}
+
+/* -------------------------------- Registry -------------------------------- */
+const escapeLabel = (v: string) =>
+  v.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+function formatLabels(names: readonly string[], values: string[], extra = "") {
+  const pairs = names.map((n, i) => `${n}="${escapeLabel(values[i])}"`);
+  if (extra) pairs.push(extra);
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+/** Series keyed by their label values, in the metric's label order. */
+abstract class Metric<T> implements RenderedMetric {
+  protected series = new Map<string, { values: string[]; data: T }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[]
+  ) {}
+
+  protected get(labels: Labels, init: () => T): T {
+    const values = this.labelNames.map((n) => labels[n] ?? "");
+    const key = values.join("\u0000");
+    let s = this.series.get(key);
+    if (!s) this.series.set(key, (s = { values, data: init() }));
+    return s.data;
+  }
+
+  abstract render(): string[];
+}
+
+class Counter extends Metric<{ value: number }> {
+  inc(labels: Labels = {}, by = 1) {
+    this.get(labels, () => ({ value: 0 })).value += by;
+  }
+
+  render() {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.series.values()].map(
+        (s) =>
+          `${this.name}${formatLabels(this.labelNames, s.values)} ${s.data.value}`
+      ),
+    ];
+  }
+}
+
+class Histogram extends Metric<{
+  counts: number[];
+  sum: number;
+  count: number;
+}> {
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly string[],
+    readonly buckets: number[]
+  ) {
+    super(name, help, labelNames);
+  }
+
+  observe(labels: Labels, value: number) {
+    const h = this.get(labels, () => ({
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+    this.buckets.forEach((b, i) => value <= b && h.counts[i]++);
+    h.sum += value;
+    h.count++;
+  }
+
+  render() {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`,
+    ];
+    for (const { values, data } of this.series.values()) {
+      const label = (extra = "") =>
+        formatLabels(this.labelNames, values, extra);
+      this.buckets.forEach((b, i) =>
+        lines.push(`${this.name}_bucket${label(`le="${b}"`)} ${data.counts[i]}`)
+      );
+      lines.push(`${this.name}_bucket${label('le="+Inf"')} ${data.count}`);
+      lines.push(`${this.name}_sum${label()} ${data.sum}`);
+      lines.push(`${this.name}_count${label()} ${data.count}`);
+    }
+    return lines;
+  }
+}
+
+/** Read at scrape time, e.g. the process pool's queue length. */
+class Gauge extends Metric<never> {
+  constructor(
+    name: string,
+    help: string,
+    private collect: () => number
+  ) {
+    super(name, help, []);
+  }
+
+  render() {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      `${this.name} ${this.collect()}`,
+    ];
+  }
+}
+
+const registry: RenderedMetric[] = [];
+
+function register<M extends RenderedMetric>(metric: M): M {
+  registry.push(metric);
+  return metric;
+}
+
+export function registerGauge(
+  name: string,
+  help: string,
+  collect: () => number
+) {
+  register(new Gauge(PREFIX + name, help, collect));
+}
+
+/** All metrics in the Prometheus text exposition format. */
+export function renderMetrics(): string {
+  return registry.flatMap((m) => m.render()).join("\n") + "\n";
+}
+
+/* --------------------------------- Metrics -------------------------------- */
+const httpRequests = register(
+  new Counter(
+    `${PREFIX}http_requests_total`,
+    "HTTP requests by route, method and status.",
+    ["route", "method", "status"]
+  )
+);
+const httpDuration = register(
+  new Histogram(
+    `${PREFIX}http_request_duration_seconds`,
+    "Time to produce a response (before the body is streamed).",
+    ["route"],
+    DURATION_BUCKETS
+  )
+);
+const conversions = register(
+  new Counter(
+    `${PREFIX}conversions_total`,
+    "Conversions by input format, route and outcome (cached = served from the cache, rejected = bad input).",
+    ["input", "route", "outcome"]
+  )
+);
+const stageDuration = register(
+  new Histogram(
+    `${PREFIX}stage_duration_seconds`,
+    "Time spent in each conversion stage; pdf-lib covers loading and saving.",
+    ["stage"],
+    DURATION_BUCKETS
+  )
+);
+const inputBytes = register(
+  new Histogram(
+    `${PREFIX}conversion_input_bytes`,
+    "Size of conversion inputs.",
+    ["input"],
+    BYTE_BUCKETS
+  )
+);
+const outputBytes = register(
+  new Histogram(
+    `${PREFIX}conversion_output_bytes`,
+    "Size of conversion outputs.",
+    ["format"],
+    BYTE_BUCKETS
+  )
+);
+const subprocessFailures = register(
+  new Counter(
+    `${PREFIX}subprocess_failures_total`,
+    "Subprocesses that exited non-zero, timed out, failed to start or were refused by a full queue.",
+    ["program", "reason"]
+  )
+);
+
+const cacheLookups = register(
+  new Counter(
+    `${PREFIX}cache_lookups_total`,
+    "Conversion cache lookups by result.",
+    ["result"]
+  )
+);
+
+/* -------------------------------- Recording ------------------------------- */
+// The route a conversion runs under: the matched path, or "/jobs" for
+// queued work.
+const currentRoute = new AsyncLocalStorage<string>();
+
+export function runWithRoute<T>(route: string, fn: () => Promise<T>) {
+  return currentRoute.run(route, fn);
+}
+
+export function observeRequest(
+  route: string,
+  method: string,
+  status: number,
+  seconds: number
+) {
+  httpRequests.inc({ route, method, status: String(status) });
+  httpDuration.observe({ route }, seconds);
+}
+
+/** Stages: mammoth, unrtf, wkhtmltopdf, wkhtmltoimage, pdf-lib, download. */
+export async function timeStage<T>(
+  stage: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  const started = performance.now();
+  try {
+    return await fn();
+  } finally {
+    observeStage(stage, (performance.now() - started) / 1000);
+  }
+}
+
+export function observeStage(stage: string, seconds: number) {
+  stageDuration.observe({ stage }, seconds);
+}
+
+export function recordConversion(
+  input: string,
+  outcome: ConversionOutcome,
+  bytesIn: number,
+  output?: { format: string; bytes: number }
+) {
+  const route = currentRoute.getStore() ?? "none";
+  conversions.inc({ input, route, outcome });
+  inputBytes.observe({ input }, bytesIn);
+  if (output) outputBytes.observe({ format: output.format }, output.bytes);
+}
+
+export function recordSubprocessFailure(
+  program: string,
+  reason: "exit" | "timeout" | "spawn" | "rejected"
+) {
+  subprocessFailures.inc({ program, reason });
+}
+
+export function recordCacheLookup(hit: boolean) {
+  cacheLookups.inc({ result: hit ? "hit" : "miss" });
+}
@@ -0,0 +1,235 @@
+// src/odt.ts
+import { HTTPException } from "hono/http-exception";
+import { extname } from "path";
+import {
+  XmlElement,
+  XmlNode,
+  childElements,
+  findElement,
+  localName,
+  parseXml,
+} from "./xml";
+
+/* ------------------------------- Constants -------------------------------- */
+// Repeated empty columns/rows are how ODF pads tables to the sheet width.
+const MAX_REPEAT = 64;
+
+const IMAGE_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".svg": "image/svg+xml",
+  ".webp": "image/webp",
+  ".bmp": "image/bmp",
+};
+
+/* --------------------------------- Styles --------------------------------- */
+type InlineStyle = { tags: string[]; align?: string; numbered?: boolean };
+
+/**
+ * The automatic styles LibreOffice writes for direct formatting, reduced to
+ * what HTML can carry: bold/italic/underline/strike/super/sub, paragraph
+ * alignment, and whether a list style is numbered.
+ */
+function readStyles(content: XmlElement): Map<string, InlineStyle> {
+  const styles = new Map<string, InlineStyle>();
+  const auto = findElement(content, "automatic-styles");
+  for (const st of auto ? childElements(auto) : []) {
+    const name = st.attrs["style:name"] || st.attrs["text:name"];
+    if (!name) continue;
+    if (localName(st.name) === "list-style") {
+      const first = childElements(st)[0];
+      styles.set(name, {
+        tags: [],
+        numbered: first && localName(first.name) === "list-level-style-number",
+      });
+      continue;
+    }
+    const text = childElements(st, "text-properties")[0]?.attrs ?? {};
+    const para = childElements(st, "paragraph-properties")[0]?.attrs ?? {};
+    const tags: string[] = [];
+    if (text["fo:font-weight"] === "bold") tags.push("strong");
+    if (text["fo:font-style"] === "italic") tags.push("em");
+    const underline = text["style:text-underline-style"];
+    if (underline && underline !== "none") tags.push("u");
+    const through = text["style:text-line-through-style"];
+    if (through && through !== "none") tags.push("s");
+    const position = text["style:text-position"] || "";
+    if (/^super/.test(position)) tags.push("sup");
+    else if (/^sub/.test(position)) tags.push("sub");
+    const align = {
+      center: "center",
+      end: "right",
+      right: "right",
+      justify: "justify",
+    }[para["fo:text-align"] as string];
+    styles.set(name, { tags, align });
+  }
+  return styles;
+}
+
+/* -------------------------------- Rendering ------------------------------- */
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const escapeAttr = (s: string) => escapeHtml(s).replace(/"/g, "&quot;");
+
+class OdtRenderer {
+  private notes: string[] = [];
+
+  constructor(
+    private files: Map<string, Uint8Array>,
+    private styles: Map<string, InlineStyle>
+  ) {}
+
+  render(body: XmlElement) {
+    const html = this.children(body);
+    if (!this.notes.length) return html;
+    return (
+      html +
+      `<hr><ol class="notes">${this.notes.map((n) => `<li>${n}</li>`).join("")}</ol>`
+    );
+  }
+
+  private children(el: XmlElement): string {
+    return el.children.map((c) => this.node(c)).join("");
+  }
+
+  private styled(el: XmlElement, inner: string) {
+    const style = this.styles.get(el.attrs["text:style-name"]);
+    for (const tag of [...(style?.tags ?? [])].reverse())
+      inner = `<${tag}>${inner}</${tag}>`;
+    return inner;
+  }
+
+  private block(tag: string, el: XmlElement) {
+    const align = this.styles.get(el.attrs["text:style-name"])?.align;
+    const attr = align ? ` style="text-align:${align}"` : "";
+    // Empty paragraphs are how word processors add vertical space.
+    const inner = this.styled(el, this.children(el)) || "&nbsp;";
+    return `<${tag}${attr}>${inner}</${tag}>`;
+  }
+
+  private node(n: XmlNode): string {
+    if (typeof n === "string") return escapeHtml(n);
+    switch (n.name) {
+      case "text:h": {
+        const level = Number(n.attrs["text:outline-level"]) || 1;
+        return this.block(`h${Math.min(Math.max(level, 1), 6)}`, n);
+      }
+      case "text:p":
+        return this.block("p", n);
+      case "text:span":
+        return this.styled(n, this.children(n));
+      case "text:a": {
+        const href = n.attrs["xlink:href"] || "";
+        return /^(https?|mailto):/i.test(href)
+          ? `<a href="${escapeAttr(href)}">${this.children(n)}</a>`
+          : this.children(n);
+      }
+      case "text:line-break":
+        return "<br>";
+      case "text:tab":
+        return "&emsp;";
+      case "text:s":
+        return "&nbsp;".repeat(Number(n.attrs["text:c"]) || 1);
+      case "text:list": {
+        const tag = this.styles.get(n.attrs["text:style-name"])?.numbered
+          ? "ol"
+          : "ul";
+        return `<${tag}>${this.children(n)}</${tag}>`;
+      }
+      case "text:list-item":
+      case "text:list-header":
+        return `<li>${this.children(n)}</li>`;
+      case "text:note": {
+        const body = childElements(n, "note-body")[0];
+        this.notes.push(body ? this.children(body) : "");
+        return `<sup>${this.notes.length}</sup>`;
+      }
+      case "table:table":
+        return `<table>${this.children(n)}</table>`;
+      case "table:table-header-rows":
+        return `<thead>${this.children(n)}</thead>`;
+      case "table:table-row":
+        return this.repeat(
+          n.attrs["table:number-rows-repeated"],
+          `<tr>${this.children(n)}</tr>`
+        );
+      case "table:table-cell": {
+        const span = (attr: string, name: string) =>
+          Number(n.attrs[attr]) > 1 ? ` ${name}="${n.attrs[attr]}"` : "";
+        return this.repeat(
+          n.attrs["table:number-columns-repeated"],
+          `<td${span("table:number-columns-spanned", "colspan")}${span(
+            "table:number-rows-spanned",
+            "rowspan"
+          )}>${this.children(n)}</td>`
+        );
+      }
+      case "draw:image":
+        return this.image(n);
+      case "text:section":
+        return `<div>${this.children(n)}</div>`;
+      // Metadata, change tracking and comments are not part of the text.
+      case "table:covered-table-cell":
+      case "table:table-columns":
+      case "table:table-column":
+      case "text:sequence-decls":
+      case "text:tracked-changes":
+      case "text:index-title-template":
+      case "text:table-of-content-source":
+      case "office:annotation":
+      case "office:forms":
+      case "svg:title":
+      case "svg:desc":
+        return "";
+      default:
+        return this.children(n);
+    }
+  }
+
+  private repeat(count: string | undefined, html: string) {
+    return html.repeat(Math.min(Math.max(Number(count) || 1, 1), MAX_REPEAT));
+  }
+
+  /** Images stored in the package become data URIs; links are dropped. */
+  private image(el: XmlElement) {
+    const href = (el.attrs["xlink:href"] || "").replace(/^\.\//, "");
+    const data = this.files.get(href);
+    const mime = IMAGE_TYPES[extname(href).toLowerCase()];
+    if (!data || !mime) return "";
+    const frame = el.attrs["svg:width"];
+    const width = frame
+      ? ` style="max-width:100%;width:${escapeAttr(frame)}"`
+      : "";
+    return `<img src="data:${mime};base64,${Buffer.from(data).toString("base64")}"${width}>`;
+  }
+}
+
+/* --------------------------------- Public --------------------------------- */
+/** Body HTML of an OpenDocument text (.odt), from its unpacked files. */
+export function odtToHtml(files: Map<string, Uint8Array>): string {
+  const content = files.get("content.xml");
+  if (!content)
+    throw new HTTPException(422, {
+      message: "ODT package is missing content.xml.",
+    });
+  const doc = parseXml(new TextDecoder().decode(content), "ODT content.xml");
+  const text = findElement(doc, "text");
+  if (!text)
+    throw new HTTPException(422, {
+      message: "ODT package is not a text document.",
+    });
+  // Frames carry the size; hand it down to the image they wrap.
+  (function sizeImages(el: XmlElement) {
+    for (const c of childElements(el)) {
+      if (c.name === "draw:frame")
+        for (const img of childElements(c, "image"))
+          img.attrs["svg:width"] ??= c.attrs["svg:width"];
+      sizeImages(c);
+    }
+  })(text);
+  return new OdtRenderer(files, readStyles(doc)).render(text);
+}
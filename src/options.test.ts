@@ -0,0 +1,111 @@
+import { describe, expect, test } from "bun:test";
+import {
+  DEFAULT_RENDER_OPTIONS,
+  pageSizeMm,
+  parseConvertOptions,
+} from "./options";
+
+const render = (fields: Record<string, unknown>) =>
+  parseConvertOptions(fields).render;
+
+const invalid = (fields: Record<string, unknown>) => {
+  try {
+    parseConvertOptions(fields);
+  } catch (err) {
+    return err as Error & { status: number };
+  }
+  throw new Error("expected the options to be rejected");
+};
+
+describe("parseConvertOptions page setup", () => {
+  test("defaults", () => {
+    expect(render({})).toEqual(DEFAULT_RENDER_OPTIONS);
+  });
+
+  test("named sizes, case-insensitively, swapped for landscape", () => {
+    const a4 = render({ paperSize: "a4", orientation: "LANDSCAPE" });
+    expect(a4.paperSize).toBe("A4");
+    expect(pageSizeMm(a4)).toEqual([297, 210]);
+  });
+
+  test("custom sizes need both lengths and keep them as given", () => {
+    const custom = render({
+      paperSize: "custom",
+      pageWidth: "4in",
+      pageHeight: 150,
+      orientation: "landscape",
+    });
+    expect(pageSizeMm(custom)).toEqual([101.6, 150]);
+    expect(invalid({ paperSize: "custom", pageWidth: 100 }).message).toContain(
+      'paperSize "custom" requires pageWidth and pageHeight.'
+    );
+  });
+
+  test("lengths take mm, cm, in, pt and px", () => {
+    const { margins } = render({
+      marginTop: "1cm",
+      marginRight: "0.5in",
+      marginBottom: "72pt",
+      marginLeft: "96px",
+    });
+    expect(margins.top).toBe(10);
+    expect(margins.right).toBeCloseTo(12.7);
+    expect(margins.bottom).toBeCloseTo(25.4);
+    expect(margins.left).toBeCloseTo(25.4);
+  });
+
+  test("marginTop etc. win over margins, which win over margin", () => {
+    const { margins } = render({
+      margin: 5,
+      margins: { top: 7, left: "1cm" },
+      marginLeft: 3,
+    });
+    expect(margins).toEqual({ top: 7, right: 5, bottom: 5, left: 3 });
+  });
+
+  test("grouped JSON options", () => {
+    expect(render({ options: '{"dpi": 300, "zoom": 1.5}' })).toMatchObject({
+      dpi: 300,
+      zoom: 1.5,
+    });
+    expect(invalid({ options: "{" }).message).toBe(
+      "options must be valid JSON."
+    );
+  });
+
+  test("400 listing every invalid field", () => {
+    const err = invalid({
+      paperSize: "A3",
+      orientation: "sideways",
+      dpi: 20,
+      zoom: "big",
+      margin: "2 furlongs",
+      margins: { top: "300mm" },
+      grayscale: "maybe",
+    });
+    expect(err.status).toBe(400);
+    for (const field of [
+      "paperSize",
+      "orientation",
+      "dpi",
+      "zoom",
+      "margin must",
+      "margins.top",
+      "grayscale",
+    ])
+      expect(err.message).toContain(field);
+  });
+
+  test("dpi and zoom bounds", () => {
+    expect(render({ dpi: 36, zoom: 0.1 })).toMatchObject({
+      dpi: 36,
+      zoom: 0.1,
+    });
+    expect(render({ dpi: "1200", zoom: "5" })).toMatchObject({
+      dpi: 1200,
+      zoom: 5,
+    });
+    expect(invalid({ dpi: 1201 }).message).toContain("dpi must be");
+    expect(invalid({ zoom: 0 }).message).toContain("zoom must be");
+  });
+});
@@ -0,0 +1,798 @@
+// src/options.ts
+import { HTTPException } from "hono/http-exception";
+import { basename } from "path";
+
+/* --------------------------------- Types ---------------------------------- */
+export type PaperSize = "A4" | "Letter" | "Legal" | "custom";
+
+export type Margins = {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+};
+
+/** Page setup shared by the wkhtmltopdf and pdf-lib renderers (lengths in mm). */
+export type RenderOptions = {
+  paperSize: PaperSize;
+  /** Only for paperSize "custom". */
+  pageWidth?: number;
+  pageHeight?: number;
+  orientation: "portrait" | "landscape";
+  margins: Margins;
+  /** wkhtmltopdf only; the pdf-lib text renderer lays out in points. */
+  dpi: number;
+  zoom: number;
+  grayscale: boolean;
+  printBackground: boolean;
+};
+
+/** Text for each slot; may use {page} {pages} {filename} {date} {title}. */
+export type HeaderFooter = { left?: string; center?: string; right?: string };
+
+export const WATERMARK_POSITIONS = [
+  "center",
+  "top-left",
+  "top-center",
+  "top-right",
+  "bottom-left",
+  "bottom-center",
+  "bottom-right",
+] as const;
+
+/** Text or image stamped over finished pages. */
+export type WatermarkOptions = {
+  /** May use {page} {pages} and {bates}. */
+  text?: string;
+  /** PNG or JPEG as a data URI or bare base64. */
+  image?: string;
+  opacity: number;
+  /** Degrees counter-clockwise. */
+  rotation: number;
+  position: (typeof WATERMARK_POSITIONS)[number];
+  /** Points; defaults to a size that fits the page for centred text. */
+  fontSize?: number;
+  color: string;
+  /** Image width as a fraction of the page width. */
+  imageScale: number;
+  /** 1-based page ranges such as "1-3,5,9-"; all pages when omitted. */
+  pages?: string;
+  batesPrefix: string;
+  batesStart: number;
+  batesDigits: number;
+};
+
+/** DOCX only: mammoth style map rules, e.g. "p[style-name='Quote'] => blockquote". */
+export type DocxOptions = {
+  styleMap?: string[];
+  /** Named style map loaded from DOCX_STYLE_MAPS_DIR. */
+  styleProfile?: string;
+};
+
+/** Web capture: render HTML the way a browser shows it (wkhtmltopdf only). */
+export type CaptureOptions = {
+  /** Milliseconds to let scripts run before printing. */
+  jsDelay: number;
+  /** Browser window size in px. */
+  windowWidth: number;
+  windowHeight: number;
+  mediaType: "screen" | "print";
+  /** "paper" uses the page setup; "viewport" makes one window-sized page per screen. */
+  paging: "paper" | "viewport";
+  cookies: Record<string, string>;
+  /** Origins of the captured URLs; cookies are only sent to these hosts. */
+  origins?: string[];
+};
+
+/** Document information (and XMP) written into PDF output. */
+export type MetadataOptions = {
+  author?: string;
+  subject?: string;
+  keywords?: string[];
+  /** The application that made the original document. */
+  creator?: string;
+  /** Custom XMP properties, written in the XMP_NAMESPACE schema. */
+  xmp?: Record<string, string>;
+};
+
+export const OUTPUT_FORMATS = [
+  "pdf",
+  "merged",
+  "html",
+  "md",
+  "txt",
+  "png",
+  "jpeg",
+] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/** For png/jpeg output (wkhtmltoimage). */
+export type ImageOptions = {
+  /** Image width in px. */
+  width: number;
+  /** The whole document instead of just its first page. */
+  fullPage: boolean;
+  /** JPEG quality, 1-100. */
+  quality: number;
+};
+
+export type ConvertOptions = {
+  render: RenderOptions;
+  header?: HeaderFooter;
+  footer?: HeaderFooter;
+  /**
+   * Document title for the {title} placeholder (defaults to the filename);
+   * also set as the PDF's title.
+   */
+  title?: string;
+  metadata?: MetadataOptions;
+  /** Archival PDF/A-2b output: embedded fonts, sRGB output intent, XMP. */
+  pdfa: boolean;
+  /** Named theme from THEMES_DIR: CSS plus optional header/footer HTML. */
+  theme?: string;
+  /** Extra CSS applied after the theme's. */
+  css?: string;
+  watermark?: WatermarkOptions;
+  /**
+   * "merged" is for archives (one PDF instead of a ZIP of PDFs); the others
+   * apply per document: sanitized HTML, Markdown, plain text or an image.
+   */
+  output: OutputFormat;
+  image: ImageOptions;
+  /** Prepend a table-of-contents page to merged output. */
+  toc: boolean;
+  /** For archives: copy PDFs and unsupported entries into the output. */
+  passthrough: boolean;
+  /** Render without local file access or network loads (untrusted HTML). */
+  sandbox: boolean;
+  capture?: CaptureOptions;
+  /** For emails: list attachments, or also append them as converted pages. */
+  attachments: "list" | "append";
+  docx?: DocxOptions;
+};
+
+/* ------------------------------- Defaults --------------------------------- */
+export const PAPER_SIZES_MM: Record<
+  Exclude<PaperSize, "custom">,
+  [number, number]
+> = {
+  A4: [210, 297],
+  Letter: [215.9, 279.4],
+  Legal: [215.9, 355.6],
+};
+
+export const DEFAULT_RENDER_OPTIONS: RenderOptions = {
+  paperSize: "Letter",
+  orientation: "portrait",
+  margins: { top: 12, right: 12, bottom: 12, left: 12 },
+  dpi: 96,
+  zoom: 1,
+  grayscale: false,
+  printBackground: true,
+};
+
+export const DEFAULT_CONVERT_OPTIONS: ConvertOptions = {
+  render: DEFAULT_RENDER_OPTIONS,
+  output: "pdf",
+  image: { width: 1024, fullPage: false, quality: 90 },
+  pdfa: false,
+  toc: false,
+  passthrough: false,
+  sandbox: false,
+  attachments: "list",
+};
+
+/* ------------------------------- Validation ------------------------------- */
+const MM_PER_UNIT: Record<string, number> = {
+  mm: 1,
+  cm: 10,
+  in: 25.4,
+  pt: 25.4 / 72,
+  px: 25.4 / 96,
+};
+
+/** Booleans from JSON or form fields ("true"/"1"/"yes"/"on" and opposites). */
+export function parseFlag(v: unknown): boolean | undefined {
+  if (typeof v === "boolean") return v;
+  const s = String(v).toLowerCase();
+  if (["true", "1", "yes", "on"].includes(s)) return true;
+  if (["false", "0", "no", "off"].includes(s)) return false;
+  return undefined;
+}
+
+/** Collects problems so a bad request reports every invalid field at once. */
+class FieldReader {
+  errors: string[] = [];
+  constructor(private raw: Record<string, unknown>) {}
+
+  has(key: string) {
+    const v = this.raw[key];
+    return v !== undefined && v !== null && v !== "";
+  }
+
+  oneOf<T extends string>(key: string, values: readonly T[]): T | undefined {
+    if (!this.has(key)) return undefined;
+    const v = String(this.raw[key]).toLowerCase();
+    const hit = values.find((x) => x.toLowerCase() === v);
+    if (!hit) this.errors.push(`${key} must be one of: ${values.join(", ")}.`);
+    return hit;
+  }
+
+  number(key: string, min: number, max: number): number | undefined {
+    if (!this.has(key)) return undefined;
+    const n = Number(this.raw[key]);
+    if (!Number.isFinite(n) || n < min || n > max) {
+      this.errors.push(`${key} must be a number between ${min} and ${max}.`);
+      return undefined;
+    }
+    return n;
+  }
+
+  bool(key: string): boolean | undefined {
+    if (!this.has(key)) return undefined;
+    const b = parseFlag(this.raw[key]);
+    if (b === undefined) this.errors.push(`${key} must be a boolean.`);
+    return b;
+  }
+
+  /** A length: bare numbers are mm, strings may carry mm/cm/in/pt/px. */
+  length(key: string, max = 1000): number | undefined {
+    if (!this.has(key)) return undefined;
+    const m = /^\s*(\d+(?:\.\d+)?)\s*(mm|cm|in|pt|px)?\s*$/i.exec(
+      String(this.raw[key])
+    );
+    const mm = m
+      ? Number(m[1]) * MM_PER_UNIT[(m[2] || "mm").toLowerCase()]
+      : NaN;
+    if (!Number.isFinite(mm) || mm > max) {
+      this.errors.push(
+        `${key} must be a length up to ${max}mm (e.g. 12mm, 0.5in).`
+      );
+      return undefined;
+    }
+    return mm;
+  }
+
+  string(key: string, maxLength = 1000): string | undefined {
+    if (!this.has(key)) return undefined;
+    const v = this.raw[key];
+    if (typeof v !== "string" || v.length > maxLength) {
+      this.errors.push(
+        `${key} must be a string of at most ${maxLength} chars.`
+      );
+      return undefined;
+    }
+    return v;
+  }
+}
+
+function parseRender(
+  f: FieldReader,
+  raw: Record<string, unknown>
+): RenderOptions {
+  const d = DEFAULT_RENDER_OPTIONS;
+  const paperSize =
+    f.oneOf("paperSize", ["A4", "Letter", "Legal", "custom"] as const) ??
+    d.paperSize;
+  const pageWidth = f.length("pageWidth");
+  const pageHeight = f.length("pageHeight");
+  if (paperSize === "custom" && (!pageWidth || !pageHeight))
+    f.errors.push('paperSize "custom" requires pageWidth and pageHeight.');
+
+  // `margins` may be an object; `margin` sets all four; `marginTop` etc. win.
+  const nested =
+    raw.margins && typeof raw.margins === "object"
+      ? new FieldReader(raw.margins as Record<string, unknown>)
+      : null;
+  const all = f.length("margin", 200);
+  const side = (name: keyof Margins) => {
+    const key = `margin${name[0].toUpperCase()}${name.slice(1)}`;
+    return (
+      f.length(key, 200) ?? nested?.length(name, 200) ?? all ?? d.margins[name]
+    );
+  };
+  const margins = {
+    top: side("top"),
+    right: side("right"),
+    bottom: side("bottom"),
+    left: side("left"),
+  };
+  if (nested) f.errors.push(...nested.errors.map((e) => `margins.${e}`));
+
+  return {
+    paperSize,
+    ...(paperSize === "custom" ? { pageWidth, pageHeight } : {}),
+    orientation:
+      f.oneOf("orientation", ["portrait", "landscape"] as const) ??
+      d.orientation,
+    margins,
+    dpi: f.number("dpi", 36, 1200) ?? d.dpi,
+    zoom: f.number("zoom", 0.1, 5) ?? d.zoom,
+    grayscale: f.bool("grayscale") ?? d.grayscale,
+    printBackground: f.bool("printBackground") ?? d.printBackground,
+  };
+}
+
+// WinAnsiEncoding 0x80-0x9F; the rest of 0x20-0xFF matches Latin-1.
+export const WIN_ANSI_HIGH = [
+  0x20ac, 0, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021, 0x02c6, 0x2030,
+  0x0160, 0x2039, 0x0152, 0, 0x017d, 0, 0, 0x2018, 0x2019, 0x201c, 0x201d,
+  0x2022, 0x2013, 0x2014, 0x02dc, 0x2122, 0x0161, 0x203a, 0x0153, 0, 0x017e,
+  0x0178,
+];
+
+/** Characters in `text` that the standard (WinAnsi) PDF fonts cannot draw. */
+export function unencodableChars(text: string): string[] {
+  const bad = [...text].filter((ch) => {
+    const cp = ch.codePointAt(0)!;
+    if ((cp >= 0x20 && cp < 0x7f) || (cp >= 0xa0 && cp <= 0xff)) return false;
+    return !(cp >= 0x80 && WIN_ANSI_HIGH.includes(cp));
+  });
+  return [...new Set(bad)];
+}
+
+// Text drawn with pdf-lib's standard fonts is rejected up front, instead
+// of failing mid-render.
+function checkEncodable(r: FieldReader, key: string, text?: string) {
+  const bad = text ? unencodableChars(text) : [];
+  if (bad.length)
+    r.errors.push(
+      `${key} has characters the PDF fonts cannot draw: ${bad.map((ch) => JSON.stringify(ch)).join(", ")}.`
+    );
+}
+
+// `header` / `footer` may be objects; `headerLeft` etc. win over them.
+function parseHeaderFooter(
+  f: FieldReader,
+  raw: Record<string, unknown>,
+  prefix: "header" | "footer"
+): HeaderFooter | undefined {
+  const nested =
+    raw[prefix] && typeof raw[prefix] === "object"
+      ? new FieldReader(raw[prefix] as Record<string, unknown>)
+      : null;
+  const out: HeaderFooter = {};
+  for (const slot of ["left", "center", "right"] as const) {
+    const key = `${prefix}${slot[0].toUpperCase()}${slot.slice(1)}`;
+    const v = f.string(key, 500) ?? nested?.string(slot, 500);
+    if (v) out[slot] = v;
+  }
+  if (nested) f.errors.push(...nested.errors.map((e) => `${prefix}.${e}`));
+  return Object.keys(out).length ? out : undefined;
+}
+
+export const PAGE_RANGES_RE =
+  /^\s*\d+\s*(-\s*\d*\s*)?(,\s*\d+\s*(-\s*\d*\s*)?)*$/;
+
+// `watermark` is either plain text ("DRAFT") or an object / JSON string.
+function parseWatermark(
+  f: FieldReader,
+  raw: Record<string, unknown>
+): WatermarkOptions | undefined {
+  let wm = raw.watermark;
+  if (wm === undefined || wm === null || wm === "") return undefined;
+  if (typeof wm === "string") {
+    if (wm.trim().startsWith("{")) {
+      try {
+        wm = JSON.parse(wm);
+      } catch {
+        f.errors.push("watermark must be text or valid JSON.");
+        return undefined;
+      }
+    } else wm = { text: wm };
+  }
+  if (typeof wm !== "object") {
+    f.errors.push("watermark must be text or an object.");
+    return undefined;
+  }
+
+  const w = new FieldReader(wm as Record<string, unknown>);
+  const text = w.string("text", 500);
+  const image = w.string("image", 10 * 1024 * 1024);
+  const pages = w.string("pages", 200);
+  if (pages && !PAGE_RANGES_RE.test(pages))
+    w.errors.push('pages must look like "1-3,5,9-".');
+  const color = w.string("color", 7) ?? "#808080";
+  if (!/^#[0-9a-f]{6}$/i.test(color))
+    w.errors.push('color must be a hex colour like "#cc0000".');
+  const position = w.oneOf("position", WATERMARK_POSITIONS) ?? "center";
+
+  const out: WatermarkOptions = {
+    text,
+    image,
+    opacity: w.number("opacity", 0, 1) ?? (image ? 0.5 : 0.2),
+    rotation:
+      w.number("rotation", -360, 360) ??
+      (position === "center" && !image ? 45 : 0),
+    position,
+    fontSize: w.number("fontSize", 1, 400),
+    color,
+    imageScale: w.number("imageScale", 0.01, 1) ?? 0.4,
+    pages,
+    batesPrefix: w.string("batesPrefix", 50) ?? "",
+    batesStart: w.number("batesStart", 0, 1e12) ?? 1,
+    batesDigits: w.number("batesDigits", 1, 20) ?? 6,
+  };
+  checkEncodable(w, "text", out.text);
+  checkEncodable(w, "batesPrefix", out.batesPrefix);
+  f.errors.push(...w.errors.map((e) => `watermark.${e}`));
+  return out;
+}
+
+const CAPTURE_FIELDS = [
+  "jsDelay",
+  "windowWidth",
+  "windowHeight",
+  "mediaType",
+  "paging",
+  "cookies",
+] as const;
+
+function parseCookies(
+  f: FieldReader,
+  value: unknown
+): Record<string, string> | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  let pairs: [string, unknown][];
+  if (typeof value === "string")
+    pairs = value
+      .split(";")
+      .filter((p) => p.trim())
+      .map((p) => {
+        const i = p.indexOf("=");
+        return i < 0
+          ? [p.trim(), undefined]
+          : [p.slice(0, i).trim(), p.slice(i + 1).trim()];
+      });
+  else if (typeof value === "object" && !Array.isArray(value))
+    pairs = Object.entries(value);
+  else pairs = [];
+  if (
+    !pairs.length ||
+    pairs.some(
+      ([k, v]) => !/^[\w.!#$%&'*+^`|~-]+$/.test(k) || typeof v !== "string"
+    )
+  ) {
+    f.errors.push('cookies must be "name=value; ..." or an object of strings.');
+    return undefined;
+  }
+  return Object.fromEntries(pairs) as Record<string, string>;
+}
+
+// `capture` is a flag or an object; flat fields such as `jsDelay` win over
+// it and also switch capture on by themselves.
+function parseCapture(
+  f: FieldReader,
+  raw: Record<string, unknown>
+): CaptureOptions | undefined {
+  let cap = raw.capture;
+  if (typeof cap === "string" && cap.trim().startsWith("{")) {
+    try {
+      cap = JSON.parse(cap);
+    } catch {
+      f.errors.push("capture must be a boolean or valid JSON.");
+      return undefined;
+    }
+  }
+  const nested =
+    cap && typeof cap === "object"
+      ? new FieldReader(cap as Record<string, unknown>)
+      : null;
+  const flag = nested ? true : f.bool("capture");
+  if (flag === false) return undefined;
+  if (!flag && !CAPTURE_FIELDS.some((k) => f.has(k))) return undefined;
+
+  const out: CaptureOptions = {
+    jsDelay:
+      f.number("jsDelay", 0, 30_000) ??
+      nested?.number("jsDelay", 0, 30_000) ??
+      0,
+    windowWidth:
+      f.number("windowWidth", 200, 10_000) ??
+      nested?.number("windowWidth", 200, 10_000) ??
+      1280,
+    windowHeight:
+      f.number("windowHeight", 200, 10_000) ??
+      nested?.number("windowHeight", 200, 10_000) ??
+      800,
+    mediaType:
+      f.oneOf("mediaType", ["screen", "print"] as const) ??
+      nested?.oneOf("mediaType", ["screen", "print"] as const) ??
+      "screen",
+    paging:
+      f.oneOf("paging", ["paper", "viewport"] as const) ??
+      nested?.oneOf("paging", ["paper", "viewport"] as const) ??
+      "paper",
+    cookies:
+      parseCookies(f, raw.cookies) ??
+      parseCookies(f, (cap as Record<string, unknown> | null)?.cookies) ??
+      {},
+  };
+  if (nested) f.errors.push(...nested.errors.map((e) => `capture.${e}`));
+  return out;
+}
+
+const MAX_CSS_LENGTH = 100_000;
+
+function parseTheme(f: FieldReader): string | undefined {
+  const theme = f.string("theme", 100);
+  if (theme === undefined || /^[\w-]+$/.test(theme)) return theme;
+  f.errors.push("theme must be a theme name (letters, digits, - and _).");
+  return undefined;
+}
+
+const MAX_STYLE_MAP_LINES = 200;
+
+/** `styleMap` is one rule per line, or an array of rules. */
+function parseDocx(
+  f: FieldReader,
+  raw: Record<string, unknown>
+): DocxOptions | undefined {
+  const profile = f.string("styleProfile", 100);
+  if (profile !== undefined && !/^[\w-]+$/.test(profile))
+    f.errors.push(
+      "styleProfile must be a profile name (letters, digits, - and _)."
+    );
+  let styleMap: string[] | undefined;
+  const value = raw.styleMap;
+  if (typeof value === "string") styleMap = value.split(/\r?\n/);
+  else if (Array.isArray(value) && value.every((l) => typeof l === "string"))
+    styleMap = value;
+  else if (value !== undefined && value !== null)
+    f.errors.push("styleMap must be a string of rules or an array of strings.");
+  styleMap = styleMap?.map((l) => l.trim()).filter(Boolean);
+  if (styleMap && styleMap.length > MAX_STYLE_MAP_LINES) {
+    f.errors.push(`styleMap may have at most ${MAX_STYLE_MAP_LINES} rules.`);
+    styleMap = undefined;
+  }
+  if (!profile && !styleMap?.length) return undefined;
+  return { styleMap, styleProfile: profile };
+}
+
+const MAX_KEYWORDS = 50;
+const MAX_XMP_FIELDS = 50;
+
+/** `keywords` is comma-separated or an array; `xmp` an object or JSON. */
+function parseMetadata(
+  f: FieldReader,
+  raw: Record<string, unknown>
+): MetadataOptions | undefined {
+  let keywords: string[] | undefined;
+  const kw = raw.keywords;
+  if (typeof kw === "string") keywords = kw.split(",");
+  else if (Array.isArray(kw) && kw.every((k) => typeof k === "string"))
+    keywords = kw;
+  else if (kw !== undefined && kw !== null)
+    f.errors.push("keywords must be a comma-separated string or an array.");
+  keywords = keywords?.map((k) => k.trim()).filter(Boolean);
+  if (keywords && keywords.length > MAX_KEYWORDS) {
+    f.errors.push(`keywords may have at most ${MAX_KEYWORDS} entries.`);
+    keywords = undefined;
+  }
+
+  let xmp = raw.xmp;
+  if (typeof xmp === "string" && xmp.trim()) {
+    try {
+      xmp = JSON.parse(xmp);
+    } catch {
+      f.errors.push("xmp must be an object or valid JSON.");
+      xmp = undefined;
+    }
+  }
+  let fields: Record<string, string> | undefined;
+  if (xmp && typeof xmp === "object" && !Array.isArray(xmp)) {
+    const pairs = Object.entries(xmp);
+    if (
+      pairs.length > MAX_XMP_FIELDS ||
+      pairs.some(
+        ([k, v]) =>
+          !/^[A-Za-z_][\w.-]*$/.test(k) ||
+          !["string", "number", "boolean"].includes(typeof v) ||
+          String(v).length > 2000
+      )
+    )
+      f.errors.push(
+        `xmp must map up to ${MAX_XMP_FIELDS} names (letters, digits, _ . -) to strings.`
+      );
+    else if (pairs.length)
+      fields = Object.fromEntries(pairs.map(([k, v]) => [k, String(v)]));
+  } else if (xmp !== undefined && xmp !== null && xmp !== "")
+    f.errors.push("xmp must be an object of name/value pairs.");
+
+  const metadata: MetadataOptions = {
+    author: f.string("author", 500),
+    subject: f.string("subject", 1000),
+    keywords: keywords?.length ? keywords : undefined,
+    creator: f.string("creator", 500),
+    xmp: fields,
+  };
+  return Object.values(metadata).some((v) => v !== undefined)
+    ? metadata
+    : undefined;
+}
+
+/** `pdfa=true`, or the conformance level "2b" (the only one offered). */
+function parsePdfA(f: FieldReader, raw: Record<string, unknown>) {
+  if (!f.has("pdfa")) return false;
+  const flag = String(raw.pdfa).toLowerCase() === "2b" || parseFlag(raw.pdfa);
+  if (flag === undefined) f.errors.push('pdfa must be a boolean or "2b".');
+  return flag ?? false;
+}
+
+/**
+ * Validate raw request fields into ConvertOptions. Options may be given as
+ * flat fields or grouped under `options` (an object, or a JSON string when
+ * sent as a form field); unknown fields are ignored.
+ */
+export function parseConvertOptions(
+  input: Record<string, unknown>
+): ConvertOptions {
+  let raw = input;
+  const grouped = input.options;
+  if (typeof grouped === "string" && grouped.trim()) {
+    try {
+      raw = { ...input, ...JSON.parse(grouped) };
+    } catch {
+      throw new HTTPException(400, { message: "options must be valid JSON." });
+    }
+  } else if (grouped && typeof grouped === "object") {
+    raw = { ...input, ...(grouped as Record<string, unknown>) };
+  }
+
+  const f = new FieldReader(raw);
+  const options: ConvertOptions = {
+    render: parseRender(f, raw),
+    header: parseHeaderFooter(f, raw, "header"),
+    footer: parseHeaderFooter(f, raw, "footer"),
+    title: f.string("title", 500),
+    metadata: parseMetadata(f, raw),
+    pdfa: parsePdfA(f, raw),
+    theme: parseTheme(f),
+    css: f.string("css", MAX_CSS_LENGTH),
+    watermark: parseWatermark(f, raw),
+    output: f.oneOf("output", OUTPUT_FORMATS) ?? "pdf",
+    image: {
+      width: f.number("imageWidth", 100, 4000) ?? 1024,
+      fullPage: f.bool("fullPage") ?? false,
+      quality: f.number("imageQuality", 1, 100) ?? 90,
+    },
+    toc: f.bool("toc") ?? false,
+    passthrough: f.bool("passthrough") ?? false,
+    sandbox: f.bool("sandbox") ?? false,
+    capture: parseCapture(f, raw),
+    attachments: f.oneOf("attachments", ["list", "append"] as const) ?? "list",
+    docx: parseDocx(f, raw),
+  };
+  if (f.errors.length)
+    throw new HTTPException(400, {
+      message: `Invalid options: ${f.errors.join(" ")}`,
+    });
+  return options;
+}
+
+/* -------------------------------- Mapping --------------------------------- */
+/**
+ * Final [width, height] in mm. Custom sizes are used exactly as given; the
+ * named sizes are portrait and swapped for landscape.
+ */
+export function pageSizeMm(opts: RenderOptions): [number, number] {
+  if (opts.paperSize === "custom") return [opts.pageWidth!, opts.pageHeight!];
+  const [w, h] = PAPER_SIZES_MM[opts.paperSize];
+  return opts.orientation === "landscape" ? [h, w] : [w, h];
+}
+
+export const mmToPt = (mm: number) => (mm * 72) / 25.4;
+
+export function wkRenderArgs(opts: RenderOptions): string[] {
+  const [w, h] = pageSizeMm(opts);
+  const mm = (n: number) => `${+n.toFixed(2)}mm`;
+  return [
+    "--page-width",
+    mm(w),
+    "--page-height",
+    mm(h),
+    "--margin-top",
+    mm(opts.margins.top),
+    "--margin-right",
+    mm(opts.margins.right),
+    "--margin-bottom",
+    mm(opts.margins.bottom),
+    "--margin-left",
+    mm(opts.margins.left),
+    "--dpi",
+    String(opts.dpi),
+    "--zoom",
+    String(opts.zoom),
+    opts.printBackground ? "--background" : "--no-background",
+    ...(opts.grayscale ? ["--grayscale"] : []),
+  ];
+}
+
+/** Window-sized pages with no margins, for capture `paging: "viewport"`. */
+export function viewportRender(
+  render: RenderOptions,
+  capture: CaptureOptions
+): RenderOptions {
+  const px = MM_PER_UNIT.px;
+  return {
+    ...render,
+    paperSize: "custom",
+    pageWidth: capture.windowWidth * px,
+    pageHeight: capture.windowHeight * px,
+    orientation: "portrait",
+    margins: { top: 0, right: 0, bottom: 0, left: 0 },
+  };
+}
+
+/** `cookieJar` is a cookie file scoping `capture.cookies` to their origins. */
+export function wkCaptureArgs(
+  capture: CaptureOptions,
+  cookieJar?: string
+): string[] {
+  return [
+    "--javascript-delay",
+    String(capture.jsDelay),
+    "--viewport-size",
+    `${capture.windowWidth}x${capture.windowHeight}`,
+    capture.mediaType === "print"
+      ? "--print-media-type"
+      : "--no-print-media-type",
+    ...(capture.paging === "viewport" ? ["--disable-smart-shrinking"] : []),
+    ...(cookieJar ? ["--cookie-jar", cookieJar] : []),
+  ];
+}
+
+/* ---------------------------- Header / footer ----------------------------- */
+export type PageVars = { filename: string; title: string; date: string };
+
+export function pageVarsFor(
+  options: ConvertOptions,
+  filename: string
+): PageVars {
+  const name = basename(filename);
+  return {
+    filename: name,
+    title: options.title || name.replace(/\.[^.]+$/, ""),
+    date: new Date().toISOString().slice(0, 10),
+  };
+}
+
+/**
+ * Fill placeholders. {page} and {pages} are left to the renderer unless
+ * given, so wkhtmltopdf can substitute them per page.
+ */
+export function expandPlaceholders(
+  template: string,
+  vars: PageVars & { page?: string | number; pages?: string | number }
+) {
+  return template.replace(/\{(page|pages|filename|date|title)\}/g, (m, k) =>
+    vars[k as keyof typeof vars] === undefined
+      ? m
+      : String(vars[k as keyof typeof vars])
+  );
+}
+
+export const HEADER_FOOTER_FONT_SIZE = 9;
+
+export function wkHeaderFooterArgs(
+  options: ConvertOptions,
+  vars: PageVars
+): string[] {
+  const args: string[] = [];
+  for (const part of ["header", "footer"] as const) {
+    const hf = options[part];
+    if (!hf) continue;
+    for (const slot of ["left", "center", "right"] as const) {
+      const tpl = hf[slot];
+      if (!tpl) continue;
+      const text = expandPlaceholders(tpl, {
+        ...vars,
+        page: "[page]",
+        pages: "[topage]",
+      });
+      args.push(`--${part}-${slot}`, text);
+    }
+    args.push(`--${part}-font-size`, String(HEADER_FOOTER_FONT_SIZE));
+  }
+  return args;
+}
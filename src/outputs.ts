@@ -0,0 +1,187 @@
+// src/outputs.ts
+import sanitizeHtml from "sanitize-html";
+import TurndownService from "turndown";
+import { OutputFormat } from "./options";
+
+/* --------------------------------- Types ---------------------------------- */
+/** Non-PDF formats a document can be returned as. */
+export type DocumentFormat = Exclude<OutputFormat, "pdf" | "merged">;
+
+export const FORMAT_TYPES: Record<
+  DocumentFormat,
+  { ext: string; mime: string }
+> = {
+  html: { ext: ".html", mime: "text/html; charset=utf-8" },
+  md: { ext: ".md", mime: "text/markdown; charset=utf-8" },
+  txt: { ext: ".txt", mime: "text/plain; charset=utf-8" },
+  png: { ext: ".png", mime: "image/png" },
+  jpeg: { ext: ".jpg", mime: "image/jpeg" },
+};
+
+/* ------------------------------- Sanitizing ------------------------------- */
+// Structure, links and images survive; scripts, frames, forms, event
+// handlers and the source's own styles do not. Images may be inline data.
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [...sanitizeHtml.defaults.allowedTags, "img", "del", "ins"],
+  allowedAttributes: {
+    a: ["href", "name", "title"],
+    img: ["src", "alt", "title", "width", "height"],
+    td: ["colspan", "rowspan"],
+    th: ["colspan", "rowspan", "scope"],
+    ol: ["start"],
+  },
+  allowedSchemes: ["http", "https", "mailto"],
+  allowedSchemesByTag: { img: ["http", "https", "data"] },
+  transformTags: {
+    a: (tagName, attribs) => ({
+      tagName,
+      attribs: { ...attribs, rel: "noopener noreferrer" },
+    }),
+  },
+};
+
+/** Inner HTML of <body>, or the whole string for fragments. */
+function bodyOf(html: string) {
+  return /<body[^>]*>([\s\S]*)<\/body>/i.exec(html)?.[1] ?? html;
+}
+
+function titleOf(html: string) {
+  return /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1].trim() || null;
+}
+
+export function sanitizeFragment(html: string): string {
+  return sanitizeHtml(bodyOf(html), SANITIZE_OPTIONS);
+}
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/** A self-contained, script-free document with the service's own CSS. */
+export function standaloneHtml(html: string, title: string, css: string) {
+  const t = titleOf(html) ?? escapeHtml(title);
+  return (
+    `<!doctype html><html><head><meta charset="utf-8"><title>${t}</title>` +
+    `<style>${css.replace(/<\/style/gi, "<\\/style")}</style></head>` +
+    `<body>${sanitizeFragment(html)}</body></html>\n`
+  );
+}
+
+/* -------------------------------- Markdown -------------------------------- */
+const turndown = new TurndownService({
+  headingStyle: "atx",
+  codeBlockStyle: "fenced",
+  bulletListMarker: "-",
+});
+// Inline images would bury the text under base64; keep only their alt text.
+turndown.addRule("dataImages", {
+  filter: (node) =>
+    node.nodeName === "IMG" &&
+    (node.getAttribute("src") || "").startsWith("data:"),
+  replacement: (_, node) => (node as HTMLElement).getAttribute("alt") || "",
+});
+
+// Converters emit bare <pre> (turndown only fences <pre><code>).
+turndown.addRule("barePre", {
+  filter: (node) =>
+    node.nodeName === "PRE" && node.firstChild?.nodeName !== "CODE",
+  replacement: (_, node) => `\n\n\`\`\`\n${node.textContent}\n\`\`\`\n\n`,
+});
+
+// GFM pipe tables; the first row is the header. Cell content is flattened
+// to one line since pipe tables can't hold blocks.
+turndown.addRule("tables", {
+  filter: "table",
+  replacement: (_, node) => {
+    const rows = Array.from((node as HTMLElement).querySelectorAll("tr")).map(
+      (tr) =>
+        Array.from(tr.children)
+          .filter((c) => c.nodeName === "TD" || c.nodeName === "TH")
+          .map((c) =>
+            turndown
+              .turndown(c.innerHTML)
+              .replace(/\s*\n+\s*/g, " ")
+              .replace(/\|/g, "\\|")
+          )
+    );
+    if (!rows.length) return "";
+    const cols = Math.max(...rows.map((r) => r.length));
+    const line = (cells: string[]) =>
+      `| ${[...cells, ...Array(cols - cells.length).fill("")].join(" | ")} |`;
+    return (
+      "\n\n" +
+      [
+        line(rows[0]),
+        line(Array(cols).fill("---")),
+        ...rows.slice(1).map(line),
+      ].join("\n") +
+      "\n\n"
+    );
+  },
+});
+
+export function htmlToMarkdown(html: string): string {
+  return turndown.turndown(sanitizeFragment(html)).trim() + "\n";
+}
+
+/* ------------------------------- Plain text ------------------------------- */
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  hellip: "…",
+  mdash: "—",
+  ndash: "–",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  bull: "•",
+  euro: "€",
+};
+
+function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, e: string) => {
+    if (e[0] !== "#") return NAMED_ENTITIES[e.toLowerCase()] ?? m;
+    const code =
+      e[1] === "x" || e[1] === "X" ? parseInt(e.slice(2), 16) : +e.slice(1);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : m;
+  });
+}
+
+const BLOCK_END_RE =
+  /<\/(p|div|h[1-6]|ul|ol|table|blockquote|section|article|header|footer)>/gi;
+
+/**
+ * Readable text for indexing: paragraphs separated by blank lines, list
+ * items prefixed with "- ", table cells tab-separated, <pre> kept verbatim.
+ */
+export function htmlToText(html: string): string {
+  const pres: string[] = [];
+  const text = sanitizeFragment(html)
+    .replace(/<pre[^>]*>([\s\S]*?)<\/pre>/gi, (_, inner: string) => {
+      pres.push(decodeEntities(inner.replace(/<[^>]+>/g, "")));
+      return `\u0000${pres.length - 1}\u0000`;
+    })
+    .replace(/\s+/g, " ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "\n- ")
+    .replace(/<\/tr>/gi, "\n")
+    .replace(/<\/t[dh]>/gi, "\t")
+    .replace(BLOCK_END_RE, "\n\n")
+    .replace(/<[^>]+>/g, "");
+  return (
+    decodeEntities(text)
+      .split("\n")
+      .map((line) => line.replace(/^ +| +$/g, "").replace(/\t+$/, ""))
+      .join("\n")
+      .replace(/\u0000(\d+)\u0000/g, (_, i) => `\n\n${pres[Number(i)]}\n\n`)
+      .replace(/\n{3,}/g, "\n\n")
+      .trim() + "\n"
+  );
+}
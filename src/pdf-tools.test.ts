@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test";
+import {
+  SPLIT_MAX_PARTS,
+  parsePageRanges,
+  parseSplitGroups,
+} from "./pdf-tools";
+
+const status = (fn: () => unknown) => {
+  try {
+    fn();
+    return 200;
+  } catch (err) {
+    return (err as { status?: number }).status;
+  }
+};
+
+describe("parsePageRanges", () => {
+  test("resolves ranges to 0-based indices in the order given", () => {
+    expect(parsePageRanges("1-3,5", 6)).toEqual([0, 1, 2, 4]);
+    expect(parsePageRanges(" 5 , 2 - 3 ", 6)).toEqual([4, 1, 2]);
+    expect(parsePageRanges("4-", 6)).toEqual([3, 4, 5]);
+    expect(parsePageRanges("2,2", 3)).toEqual([1, 1]);
+  });
+
+  test("an omitted spec selects every page", () => {
+    expect(parsePageRanges(undefined, 3)).toEqual([0, 1, 2]);
+    expect(parsePageRanges("  ", 2)).toEqual([0, 1]);
+  });
+
+  test("400 for reversed ranges", () => {
+    expect(status(() => parsePageRanges("3-1", 6))).toBe(400);
+  });
+
+  test("400 for pages out of bounds", () => {
+    expect(status(() => parsePageRanges("0", 6))).toBe(400);
+    expect(status(() => parsePageRanges("7", 6))).toBe(400);
+    expect(status(() => parsePageRanges("5-7", 6))).toBe(400);
+    expect(() => parsePageRanges("5-7", 6)).toThrow("outside 1-6");
+  });
+
+  test("400 for malformed or empty parts", () => {
+    for (const spec of ["a", "1-2-3", "-3", "1,,2", "1,"])
+      expect(status(() => parsePageRanges(spec, 6))).toBe(400);
+  });
+});
+
+describe("parseSplitGroups", () => {
+  test("one group per range, skipping empty ones", () => {
+    expect(parseSplitGroups(6, { ranges: "1-2;3;;5-" })).toEqual([
+      [0, 1],
+      [2],
+      [4, 5],
+    ]);
+    expect(parseSplitGroups(3, { ranges: " ; 2 ; " })).toEqual([[1]]);
+  });
+
+  test("chunks of every N pages", () => {
+    expect(parseSplitGroups(5, { every: 2 })).toEqual([[0, 1], [2, 3], [4]]);
+    expect(parseSplitGroups(2, {})).toEqual([[0], [1]]);
+  });
+
+  test("400 for bad ranges, empty ranges or a bad every", () => {
+    expect(status(() => parseSplitGroups(6, { ranges: "3-1" }))).toBe(400);
+    expect(status(() => parseSplitGroups(6, { ranges: "1;9" }))).toBe(400);
+    expect(status(() => parseSplitGroups(6, { ranges: ";;" }))).toBe(400);
+    for (const every of [0, -1, 1.5, NaN])
+      expect(status(() => parseSplitGroups(6, { every }))).toBe(400);
+  });
+
+  test("413 beyond SPLIT_MAX_PARTS parts", () => {
+    const pages = SPLIT_MAX_PARTS + 1;
+    expect(status(() => parseSplitGroups(pages, { every: 1 }))).toBe(413);
+    expect(status(() => parseSplitGroups(pages, { every: 2 }))).toBe(200);
+    const ranges = "1;".repeat(SPLIT_MAX_PARTS + 1);
+    expect(status(() => parseSplitGroups(pages, { ranges }))).toBe(413);
+    expect(
+      status(() => parseSplitGroups(pages, { ranges: ranges.slice(2) }))
+    ).toBe(200);
+  });
+});
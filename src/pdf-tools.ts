@@ -0,0 +1,384 @@
+// src/pdf-tools.ts
+import { HTTPException } from "hono/http-exception";
+import {
+  EncryptedPDFError,
+  PDFDocument,
+  PDFFont,
+  PDFHexString,
+  PDFImage,
+  PDFName,
+  PDFRef,
+  StandardFonts,
+  degrees,
+  rgb,
+} from "pdf-lib";
+import { timeStage } from "./metrics";
+import { WatermarkOptions } from "./options";
+import { tempPath } from "./workspace";
+
+/* ------------------------------- Constants -------------------------------- */
+// Most parts one /pdf/split request may produce, from ranges or `every`.
+export const SPLIT_MAX_PARTS = Number(process.env.SPLIT_MAX_PARTS || 200);
+
+/* ------------------------------- Loading ---------------------------------- */
+export async function loadPdf(
+  bytes: Uint8Array,
+  name = "PDF"
+): Promise<PDFDocument> {
+  try {
+    return await timeStage("pdf-lib", () => PDFDocument.load(bytes));
+  } catch (err) {
+    if (err instanceof EncryptedPDFError)
+      throw new HTTPException(422, {
+        message: `${name} is encrypted; remove the password first.`,
+      });
+    throw new HTTPException(422, {
+      message: `${name} could not be parsed as a PDF.`,
+    });
+  }
+}
+
+/** Page count, or null if the bytes don't parse as a PDF. */
+export async function countPdfPages(bytes: Uint8Array): Promise<number | null> {
+  try {
+    const pdf = await PDFDocument.load(bytes, { ignoreEncryption: true });
+    return pdf.getPageCount();
+  } catch {
+    return null;
+  }
+}
+
+export async function savePdf_toPath(
+  pdf: PDFDocument,
+  outBase = "document"
+): Promise<string> {
+  const outPath = tempPath(`${outBase}.pdf`);
+  await Bun.write(outPath, await timeStage("pdf-lib", () => pdf.save()));
+  return outPath;
+}
+
+/** Replace characters the (standard, WinAnsi) font cannot encode with "?". */
+export function encodableText(font: PDFFont, text: string) {
+  const supported = new Set(font.getCharacterSet());
+  return [...text]
+    .map((ch) => (supported.has(ch.codePointAt(0)!) ? ch : "?"))
+    .join("");
+}
+
+/* ------------------------------ Page ranges ------------------------------- */
+/**
+ * Resolve "1-3,5,9-" against a page count into 0-based page indices, in the
+ * order given. An omitted spec selects every page.
+ */
+export function parsePageRanges(
+  spec: string | undefined,
+  pageCount: number
+): number[] {
+  if (!spec || !spec.trim()) return [...Array(pageCount).keys()];
+  const out: number[] = [];
+  for (const part of spec.split(",")) {
+    const m = /^\s*(\d+)\s*(?:(-)\s*(\d*))?\s*$/.exec(part);
+    if (!m)
+      throw new HTTPException(400, {
+        message: `Invalid page range "${part}".`,
+      });
+    const from = Number(m[1]);
+    const to = m[2] ? (m[3] ? Number(m[3]) : pageCount) : from;
+    if (from < 1 || to < from || to > pageCount)
+      throw new HTTPException(400, {
+        message: `Page range "${part.trim()}" is outside 1-${pageCount}.`,
+      });
+    for (let p = from; p <= to; p++) out.push(p - 1);
+  }
+  return out;
+}
+
+/**
+ * Page groups for splitting: explicit ranges separated by ";" (e.g.
+ * "1-3;4-6;7-"), or consecutive chunks of `every` pages. More than
+ * SPLIT_MAX_PARTS groups is a 413.
+ */
+export function parseSplitGroups(
+  pageCount: number,
+  opts: { ranges?: string; every?: number }
+): number[][] {
+  if (opts.ranges) {
+    const ranges = opts.ranges.split(";").filter((r) => r.trim());
+    if (!ranges.length)
+      throw new HTTPException(400, { message: "ranges lists no pages." });
+    checkSplitParts(ranges.length);
+    return ranges.map((r) => parsePageRanges(r, pageCount));
+  }
+  const every = opts.every ?? 1;
+  if (!Number.isInteger(every) || every < 1)
+    throw new HTTPException(400, {
+      message: "every must be a positive integer.",
+    });
+  checkSplitParts(Math.ceil(pageCount / every));
+  const groups: number[][] = [];
+  for (let i = 0; i < pageCount; i += every)
+    groups.push(
+      [...Array(Math.min(every, pageCount - i)).keys()].map((k) => i + k)
+    );
+  return groups;
+}
+
+function checkSplitParts(parts: number) {
+  if (parts > SPLIT_MAX_PARTS)
+    throw new HTTPException(413, {
+      message: `Splitting would produce ${parts} parts. Max is ${SPLIT_MAX_PARTS}; use larger ranges or a larger every.`,
+    });
+}
+
+/* --------------------------- Merge / split -------------------------------- */
+export async function copyPagesToNew(
+  src: PDFDocument,
+  indices: number[]
+): Promise<PDFDocument> {
+  const out = await PDFDocument.create();
+  const pages = await out.copyPages(src, indices);
+  for (const p of pages) out.addPage(p);
+  return out;
+}
+
+/** Add a flat document outline (bookmarks), one entry per title. */
+export function addOutline(
+  pdf: PDFDocument,
+  entries: { title: string; pageIndex: number }[]
+) {
+  if (!entries.length) return;
+  const { context } = pdf;
+  const outlineRef = context.nextRef();
+  const refs: PDFRef[] = entries.map(() => context.nextRef());
+
+  entries.forEach((e, i) => {
+    const item = context.obj({
+      Title: PDFHexString.fromText(e.title),
+      Parent: outlineRef,
+      Dest: [pdf.getPage(e.pageIndex).ref, "Fit"],
+    });
+    if (i > 0) item.set(PDFName.of("Prev"), refs[i - 1]);
+    if (i < refs.length - 1) item.set(PDFName.of("Next"), refs[i + 1]);
+    context.assign(refs[i], item);
+  });
+
+  context.assign(
+    outlineRef,
+    context.obj({
+      Type: "Outlines",
+      First: refs[0],
+      Last: refs[refs.length - 1],
+      Count: refs.length,
+    })
+  );
+  pdf.catalog.set(PDFName.of("Outlines"), outlineRef);
+  pdf.catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+}
+
+/**
+ * Insert table-of-contents pages at the front listing each entry's title
+ * and (1-based, final) page number. Returns how many pages were inserted.
+ */
+export async function insertTocPages(
+  pdf: PDFDocument,
+  entries: { title: string; pageIndex: number }[]
+): Promise<number> {
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const { width, height } = pdf.getPageCount()
+    ? pdf.getPage(0).getSize()
+    : { width: 612, height: 792 };
+  const margin = 54;
+  const size = 11;
+  const lineHeight = size * 1.6;
+  const headingGap = 40;
+  const perPage = Math.max(
+    1,
+    Math.floor((height - margin * 2 - headingGap) / lineHeight)
+  );
+  const tocCount = Math.max(1, Math.ceil(entries.length / perPage));
+
+  for (let t = 0; t < tocCount; t++) {
+    const page = pdf.insertPage(t, [width, height]);
+    let y = height - margin - 18;
+    if (t === 0)
+      page.drawText("Contents", { x: margin, y, size: 18, font: bold });
+    y -= headingGap;
+    for (const e of entries.slice(t * perPage, (t + 1) * perPage)) {
+      const num = String(e.pageIndex + tocCount + 1);
+      const numW = font.widthOfTextAtSize(num, size);
+      const maxTitleW = width - margin * 2 - numW - 24;
+      let title = encodableText(font, e.title);
+      while (
+        title.length > 1 &&
+        font.widthOfTextAtSize(title, size) > maxTitleW
+      )
+        title = title.slice(0, -2) + "…";
+      page.drawText(title, { x: margin, y, size, font });
+      page.drawText(num, { x: width - margin - numW, y, size, font });
+      y -= lineHeight;
+    }
+  }
+  return tocCount;
+}
+
+/**
+ * Concatenate documents in order. With `bookmarks`, each source gets an
+ * outline entry pointing at its first page; `toc` prepends a contents page.
+ */
+export async function mergePdfs(
+  sources: { title: string; pdf: PDFDocument }[],
+  opts: { bookmarks?: boolean; toc?: boolean } = {}
+): Promise<PDFDocument> {
+  const out = await PDFDocument.create();
+  let outline: { title: string; pageIndex: number }[] = [];
+  for (const { title, pdf } of sources) {
+    const pageIndex = out.getPageCount();
+    const pages = await out.copyPages(pdf, pdf.getPageIndices());
+    for (const p of pages) out.addPage(p);
+    if (pages.length) outline.push({ title, pageIndex });
+  }
+  if (opts.toc) {
+    const shift = await insertTocPages(out, outline);
+    outline = outline.map((e) => ({ ...e, pageIndex: e.pageIndex + shift }));
+  }
+  if (opts.bookmarks) addOutline(out, outline);
+  return out;
+}
+
+/* ------------------------------- Stamping --------------------------------- */
+function hexToRgb(hex: string) {
+  const n = parseInt(hex.slice(1), 16);
+  return rgb(((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255);
+}
+
+function decodeImage(image: string): Uint8Array {
+  const b64 = image.replace(/^data:[^;,]+;base64,/, "");
+  return new Uint8Array(Buffer.from(b64, "base64"));
+}
+
+async function embedImage(pdf: PDFDocument, bytes: Uint8Array) {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50) return pdf.embedPng(bytes);
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return pdf.embedJpg(bytes);
+  throw new HTTPException(400, {
+    message: "Watermark image must be a PNG or JPEG.",
+  });
+}
+
+/**
+ * Bottom-left origin that places a box of `w`×`h`, rotated by `rot` around
+ * its own centre, with that centre at (cx, cy).
+ */
+function rotatedOrigin(
+  cx: number,
+  cy: number,
+  w: number,
+  h: number,
+  rot: number
+) {
+  const r = (rot * Math.PI) / 180;
+  return {
+    x: cx - (w / 2) * Math.cos(r) + (h / 2) * Math.sin(r),
+    y: cy - (w / 2) * Math.sin(r) - (h / 2) * Math.cos(r),
+  };
+}
+
+function anchor(
+  position: WatermarkOptions["position"],
+  page: { width: number; height: number },
+  w: number,
+  h: number
+) {
+  const pad = 24;
+  const [v, hz] =
+    position === "center" ? ["center", "center"] : position.split("-");
+  const cx =
+    hz === "left"
+      ? pad + w / 2
+      : hz === "right"
+        ? page.width - pad - w / 2
+        : page.width / 2;
+  const cy =
+    v === "top"
+      ? page.height - pad - h / 2
+      : v === "bottom"
+        ? pad + h / 2
+        : page.height / 2;
+  return { cx, cy };
+}
+
+/**
+ * Stamp text and/or an image onto the selected pages. `{bates}` in the text
+ * numbers stamped pages consecutively from `batesStart`.
+ */
+export async function stampPdf(
+  pdf: PDFDocument,
+  wm: WatermarkOptions,
+  imageBytes?: Uint8Array
+) {
+  const imgBytes = imageBytes ?? (wm.image ? decodeImage(wm.image) : undefined);
+  if (!wm.text && !imgBytes)
+    throw new HTTPException(400, {
+      message: "Watermark needs text or an image.",
+    });
+
+  const font = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const image: PDFImage | null = imgBytes
+    ? await embedImage(pdf, imgBytes)
+    : null;
+  const color = hexToRgb(wm.color);
+  const pages = pdf.getPages();
+  const selected = parsePageRanges(wm.pages, pages.length);
+
+  selected.forEach((index, ordinal) => {
+    const page = pages[index];
+    const size = page.getSize();
+
+    if (image) {
+      const w = size.width * wm.imageScale;
+      const h = (image.height / image.width) * w;
+      const { cx, cy } = anchor(wm.position, size, w, h);
+      page.drawImage(image, {
+        ...rotatedOrigin(cx, cy, w, h, wm.rotation),
+        width: w,
+        height: h,
+        rotate: degrees(wm.rotation),
+        opacity: wm.opacity,
+      });
+    }
+
+    if (wm.text) {
+      const bates =
+        wm.batesPrefix +
+        String(wm.batesStart + ordinal).padStart(wm.batesDigits, "0");
+      const text = wm.text.replace(/\{(page|pages|bates)\}/g, (_, k) =>
+        k === "page"
+          ? String(index + 1)
+          : k === "pages"
+            ? String(pages.length)
+            : bates
+      );
+      // Centred stamps default to spanning ~70% of the page diagonal.
+      const fontSize =
+        wm.fontSize ??
+        (wm.position === "center"
+          ? Math.min(
+              150,
+              (Math.hypot(size.width, size.height) * 0.7) /
+                Math.max(1, font.widthOfTextAtSize(text, 1))
+            )
+          : 12);
+      const w = font.widthOfTextAtSize(text, fontSize);
+      const h = font.heightAtSize(fontSize, { descender: false });
+      const { cx, cy } = anchor(wm.position, size, w, h);
+      page.drawText(text, {
+        ...rotatedOrigin(cx, cy, w, h, wm.rotation),
+        size: fontSize,
+        font,
+        color,
+        opacity: wm.opacity,
+        rotate: degrees(wm.rotation),
+      });
+    }
+  });
+}
@@ -0,0 +1,479 @@
+// src/pdfa.ts
+import { create as createFont } from "@pdf-lib/fontkit";
+import { join } from "path";
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFRef,
+  PDFStream,
+  PDFString,
+  StandardFonts,
+} from "pdf-lib";
+import { MetadataOptions, WIN_ANSI_HIGH } from "./options";
+
+/* ------------------------------- Constants -------------------------------- */
+// Metric-compatible TrueType stand-ins for the standard 14 fonts, which
+// PDF/A requires to be embedded (the Liberation fonts in the image).
+export const PDFA_FONT_DIR =
+  process.env.PDFA_FONT_DIR || "/usr/share/fonts/truetype/liberation";
+// Schema for custom `xmp` properties.
+export const XMP_NAMESPACE =
+  process.env.XMP_NAMESPACE || "urn:brightline:custom:1.0#";
+const XMP_PREFIX = "custom";
+
+const SRGB = "sRGB IEC61966-2.1";
+
+const FONT_SUBSTITUTES: Partial<Record<StandardFonts, string>> = {
+  [StandardFonts.Helvetica]: "LiberationSans-Regular.ttf",
+  [StandardFonts.HelveticaBold]: "LiberationSans-Bold.ttf",
+  [StandardFonts.HelveticaOblique]: "LiberationSans-Italic.ttf",
+  [StandardFonts.HelveticaBoldOblique]: "LiberationSans-BoldItalic.ttf",
+  [StandardFonts.TimesRoman]: "LiberationSerif-Regular.ttf",
+  [StandardFonts.TimesRomanBold]: "LiberationSerif-Bold.ttf",
+  [StandardFonts.TimesRomanItalic]: "LiberationSerif-Italic.ttf",
+  [StandardFonts.TimesRomanBoldItalic]: "LiberationSerif-BoldItalic.ttf",
+  [StandardFonts.Courier]: "LiberationMono-Regular.ttf",
+  [StandardFonts.CourierBold]: "LiberationMono-Bold.ttf",
+  [StandardFonts.CourierOblique]: "LiberationMono-Italic.ttf",
+  [StandardFonts.CourierBoldOblique]: "LiberationMono-BoldItalic.ttf",
+};
+
+// Actions PDF/A-2 allows on links and annotations; others are removed.
+const ALLOWED_ACTIONS = new Set([
+  "GoTo",
+  "GoToR",
+  "GoToE",
+  "Thread",
+  "URI",
+  "Named",
+  "SetOCGState",
+]);
+const FORBIDDEN_ANNOTATIONS = new Set([
+  "FileAttachment",
+  "Sound",
+  "Movie",
+  "Screen",
+  "3D",
+]);
+
+/* --------------------------------- Types ---------------------------------- */
+export type DocumentInfo = MetadataOptions & { title?: string };
+
+/* -------------------------------- Metadata -------------------------------- */
+const escapeXml = (v: string) =>
+  v
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// XMP dates carry the same (second) precision as the Info dictionary's.
+const xmpDate = (d: Date) => d.toISOString().replace(/\.\d{3}Z$/, "Z");
+
+function xmpPacket(
+  pdf: PDFDocument,
+  custom: Record<string, string>,
+  pdfa: boolean
+) {
+  const el = (name: string, value?: string) =>
+    value ? `<${name}>${escapeXml(value)}</${name}>` : "";
+  const alt = (name: string, value?: string) =>
+    value
+      ? `<${name}><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt></${name}>`
+      : "";
+  const created = pdf.getCreationDate();
+  const modified = pdf.getModificationDate();
+  const keywords = pdf.getKeywords();
+  const author = pdf.getAuthor();
+
+  const props = [
+    pdfa
+      ? "<pdfaid:part>2</pdfaid:part><pdfaid:conformance>B</pdfaid:conformance>"
+      : "",
+    "<dc:format>application/pdf</dc:format>",
+    alt("dc:title", pdf.getTitle()),
+    author
+      ? `<dc:creator><rdf:Seq><rdf:li>${escapeXml(author)}</rdf:li></rdf:Seq></dc:creator>`
+      : "",
+    alt("dc:description", pdf.getSubject()),
+    el("pdf:Keywords", keywords),
+    el("pdf:Producer", pdf.getProducer()),
+    el("xmp:CreatorTool", pdf.getCreator()),
+    el("xmp:CreateDate", created && xmpDate(created)),
+    el("xmp:ModifyDate", modified && xmpDate(modified)),
+    el("xmp:MetadataDate", modified && xmpDate(modified)),
+    ...Object.entries(custom).map(([k, v]) => el(`${XMP_PREFIX}:${k}`, v)),
+  ];
+
+  // PDF/A only admits properties outside the standard schemas when the
+  // packet describes them.
+  const extension =
+    pdfa && Object.keys(custom).length
+      ? `<rdf:Description rdf:about=""
+    xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/"
+    xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#"
+    xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#">
+   <pdfaExtension:schemas><rdf:Bag><rdf:li rdf:parseType="Resource">
+    <pdfaSchema:schema>Custom document properties</pdfaSchema:schema>
+    <pdfaSchema:namespaceURI>${escapeXml(XMP_NAMESPACE)}</pdfaSchema:namespaceURI>
+    <pdfaSchema:prefix>${XMP_PREFIX}</pdfaSchema:prefix>
+    <pdfaSchema:property><rdf:Seq>${Object.keys(custom)
+      .map(
+        (k) =>
+          `<rdf:li rdf:parseType="Resource"><pdfaProperty:name>${k}</pdfaProperty:name>` +
+          `<pdfaProperty:valueType>Text</pdfaProperty:valueType>` +
+          `<pdfaProperty:category>external</pdfaProperty:category>` +
+          `<pdfaProperty:description>${k}</pdfaProperty:description></rdf:li>`
+      )
+      .join("")}</rdf:Seq></pdfaSchema:property>
+   </rdf:li></rdf:Bag></pdfaExtension:schemas>
+  </rdf:Description>
+  `
+      : "";
+
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/"
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:pdf="http://ns.adobe.com/pdf/1.3/"
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:${XMP_PREFIX}="${escapeXml(XMP_NAMESPACE)}">
+   ${props.filter(Boolean).join("\n   ")}
+  </rdf:Description>
+  ${extension}</rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+}
+
+/**
+ * Set the Info dictionary from the request and replace the XMP packet with
+ * one that mirrors it (PDF/A requires the two to agree), plus any custom
+ * properties and, for PDF/A, the conformance claim.
+ */
+export function setDocumentMetadata(
+  pdf: PDFDocument,
+  info: DocumentInfo,
+  pdfa = false
+) {
+  if (info.title) pdf.setTitle(info.title);
+  if (info.author) pdf.setAuthor(info.author);
+  if (info.subject) pdf.setSubject(info.subject);
+  if (info.keywords) pdf.setKeywords([info.keywords.join(", ")]);
+  if (info.creator) pdf.setCreator(info.creator);
+  // Rewrite dates in pdf-lib's UTC form so they match the XMP exactly.
+  const now = new Date();
+  pdf.setCreationDate(pdf.getCreationDate() ?? now);
+  pdf.setModificationDate(now);
+
+  const xml = new TextEncoder().encode(xmpPacket(pdf, info.xmp ?? {}, pdfa));
+  // Left uncompressed: PDF/A forbids filters on the metadata stream.
+  const stream = pdf.context.stream(xml, { Type: "Metadata", Subtype: "XML" });
+  pdf.catalog.set(PDFName.of("Metadata"), pdf.context.register(stream));
+}
+
+/* ------------------------------ ICC profile ------------------------------- */
+/**
+ * A minimal ICC v2 display profile for sRGB: D50-adapted primaries and a
+ * sampled sRGB tone curve, shared by the three channels.
+ */
+function srgbIccProfile(): Uint8Array {
+  const ascii = (s: string) => [...s].map((ch) => ch.charCodeAt(0));
+  const u16 = (n: number) => [(n >> 8) & 255, n & 255];
+  const u32 = (n: number) => [...u16(n >>> 16), ...u16(n & 0xffff)];
+  const s15 = (n: number) => u32(Math.round(n * 65536));
+  const typed = (type: string, body: number[]) => [
+    ...ascii(type),
+    ...u32(0),
+    ...body,
+  ];
+  const xyz = (x: number, y: number, z: number) =>
+    typed("XYZ ", [...s15(x), ...s15(y), ...s15(z)]);
+
+  const curve = typed("curv", [
+    ...u32(1024),
+    ...Array.from({ length: 1024 }, (_, i) => {
+      const v = i / 1023;
+      const linear = v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+      return u16(Math.round(linear * 65535));
+    }).flat(),
+  ]);
+  const tags: [string, number[]][] = [
+    [
+      "desc",
+      typed("desc", [
+        ...u32(SRGB.length + 1),
+        ...ascii(SRGB),
+        0,
+        ...u32(0),
+        ...u32(0),
+        ...new Array(70).fill(0),
+      ]),
+    ],
+    ["cprt", typed("text", [...ascii("No copyright, use freely"), 0])],
+    ["wtpt", xyz(0.9642, 1, 0.8249)],
+    ["rXYZ", xyz(0.4361, 0.2225, 0.0139)],
+    ["gXYZ", xyz(0.3851, 0.7169, 0.0971)],
+    ["bXYZ", xyz(0.1431, 0.0606, 0.7141)],
+    ["rTRC", curve],
+    ["gTRC", curve],
+    ["bTRC", curve],
+  ];
+
+  const table: number[] = [...u32(tags.length)];
+  const data: number[] = [];
+  const offsets = new Map<number[], number>();
+  const start = 128 + 4 + tags.length * 12;
+  for (const [sig, body] of tags) {
+    if (!offsets.has(body)) {
+      offsets.set(body, start + data.length);
+      data.push(...body);
+      while (data.length % 4) data.push(0);
+    }
+    table.push(...ascii(sig), ...u32(offsets.get(body)!), ...u32(body.length));
+  }
+  const size = start + data.length;
+  const header = [
+    ...u32(size),
+    ...u32(0), // preferred CMM
+    ...u32(0x02100000), // version 2.1
+    ...ascii("mntr"),
+    ...ascii("RGB "),
+    ...ascii("XYZ "),
+    ...[2000, 1, 1, 0, 0, 0].flatMap(u16),
+    ...ascii("acsp"),
+    ...new Array(24).fill(0), // platform, flags, device, attributes
+    ...u32(0), // perceptual intent
+    ...u32(0xf6d6),
+    ...u32(0x10000),
+    ...u32(0xd32d), // D50 illuminant, as the spec spells it
+    ...new Array(48).fill(0), // creator, profile id, reserved
+  ];
+  return new Uint8Array([...header, ...table, ...data]);
+}
+
+/* -------------------------------- Fonts ---------------------------------- */
+type EmbeddedFont = { baseFont: string; descriptor: PDFRef; widths: PDFRef };
+
+/** A full (not subset) TrueType program with WinAnsi widths. */
+async function embedTrueType(
+  pdf: PDFDocument,
+  path: string
+): Promise<EmbeddedFont> {
+  const bytes = new Uint8Array(await Bun.file(path).arrayBuffer());
+  const font = createFont(bytes);
+  const scale = 1000 / font.unitsPerEm;
+  const notdef = font.getGlyph(0).advanceWidth;
+  const widths = Array.from({ length: 224 }, (_, i) => {
+    const code = i + 32;
+    const cp = code >= 0x80 && code < 0xa0 ? WIN_ANSI_HIGH[code - 0x80] : code;
+    const glyph = cp && code !== 0x7f ? font.glyphForCodePoint(cp) : null;
+    return Math.round((glyph?.advanceWidth ?? notdef) * scale);
+  });
+  const { context } = pdf;
+  const baseFont = font.postscriptName ?? path;
+  const flags =
+    32 | // nonsymbolic
+    (font.post.isFixedPitch ? 1 : 0) |
+    (/Serif/.test(path) ? 2 : 0) |
+    (font.italicAngle ? 64 : 0);
+  const descriptor = context.obj({
+    Type: "FontDescriptor",
+    FontName: baseFont,
+    Flags: flags,
+    FontBBox: [
+      font.bbox.minX * scale,
+      font.bbox.minY * scale,
+      font.bbox.maxX * scale,
+      font.bbox.maxY * scale,
+    ],
+    ItalicAngle: font.italicAngle,
+    Ascent: font.ascent * scale,
+    Descent: font.descent * scale,
+    CapHeight: (font.capHeight || font.ascent) * scale,
+    StemV: 0,
+    FontFile2: context.register(
+      context.flateStream(bytes, { Length1: bytes.length })
+    ),
+  });
+  return {
+    baseFont,
+    descriptor: context.register(descriptor),
+    widths: context.register(context.obj(widths)),
+  };
+}
+
+const isEmbedded = (descriptor: unknown) =>
+  descriptor instanceof PDFDict &&
+  ["FontFile", "FontFile2", "FontFile3"].some((k) =>
+    descriptor.has(PDFName.of(k))
+  );
+
+/**
+ * Swap the standard fonts pdf-lib draws with (never embedded) for their
+ * Liberation equivalents, which share their metrics, and name every other
+ * font that lacks an embedded program.
+ */
+async function embedFonts(pdf: PDFDocument, report: (msg: string) => void) {
+  const embedded = new Map<string, EmbeddedFont | null>();
+  for (const [, obj] of pdf.context.enumerateIndirectObjects()) {
+    if (!(obj instanceof PDFDict)) continue;
+    if (obj.get(PDFName.of("Type")) !== PDFName.of("Font")) continue;
+    const subtype = obj.get(PDFName.of("Subtype"));
+    const name = obj.get(PDFName.of("BaseFont"))?.toString().slice(1) ?? "?";
+    if (subtype === PDFName.of("Type3")) continue;
+
+    if (subtype === PDFName.of("Type0")) {
+      const descendants = obj.lookup(PDFName.of("DescendantFonts"));
+      const cid =
+        descendants instanceof PDFArray ? descendants.lookup(0) : undefined;
+      if (
+        !(cid instanceof PDFDict) ||
+        !isEmbedded(cid.lookup(PDFName.of("FontDescriptor")))
+      )
+        report(`font ${name} is not embedded.`);
+      continue;
+    }
+    if (isEmbedded(obj.lookup(PDFName.of("FontDescriptor")))) continue;
+
+    const file = FONT_SUBSTITUTES[name as StandardFonts];
+    const winAnsi =
+      obj.get(PDFName.of("Encoding")) === PDFName.of("WinAnsiEncoding");
+    if (!file || !winAnsi || subtype !== PDFName.of("Type1")) {
+      report(`font ${name} is not embedded.`);
+      continue;
+    }
+    if (!embedded.has(file)) {
+      const path = join(PDFA_FONT_DIR, file);
+      embedded.set(
+        file,
+        (await Bun.file(path).exists()) ? await embedTrueType(pdf, path) : null
+      );
+    }
+    const font = embedded.get(file);
+    if (!font) {
+      report(`font ${name} is not embedded (no ${file} in PDFA_FONT_DIR).`);
+      continue;
+    }
+    obj.set(PDFName.of("Subtype"), PDFName.of("TrueType"));
+    obj.set(PDFName.of("BaseFont"), PDFName.of(font.baseFont));
+    obj.set(PDFName.of("FirstChar"), PDFNumber.of(32));
+    obj.set(PDFName.of("LastChar"), PDFNumber.of(255));
+    obj.set(PDFName.of("Widths"), font.widths);
+    obj.set(PDFName.of("FontDescriptor"), font.descriptor);
+  }
+}
+
+/* ------------------------------ Conformance ------------------------------- */
+/** Remove `holder[key]` unless it is an action PDF/A allows. */
+function stripAction(holder: PDFDict, key = "A") {
+  const action = holder.lookup(PDFName.of(key));
+  if (!(action instanceof PDFDict)) return;
+  const type = action.get(PDFName.of("S"))?.toString().slice(1);
+  if (!type || !ALLOWED_ACTIONS.has(type)) holder.delete(PDFName.of(key));
+}
+
+function fixAnnotations(pdf: PDFDocument, report: (msg: string) => void) {
+  pdf.getPages().forEach((page, i) => {
+    page.node.delete(PDFName.of("AA"));
+    const annots = page.node.Annots();
+    for (let j = 0; annots && j < annots.size(); j++) {
+      const annot = annots.lookup(j);
+      if (!(annot instanceof PDFDict)) continue;
+      const subtype = annot.get(PDFName.of("Subtype"))?.toString().slice(1);
+      if (subtype && FORBIDDEN_ANNOTATIONS.has(subtype)) {
+        report(`page ${i + 1} has a ${subtype} annotation.`);
+        continue;
+      }
+      // Printable, and not hidden (Invisible, Hidden and NoView cleared).
+      const flags = annot.lookup(PDFName.of("F"));
+      const f = flags instanceof PDFNumber ? flags.asNumber() : 0;
+      annot.set(PDFName.of("F"), PDFNumber.of((f | 4) & ~(1 | 2 | 32)));
+      annot.delete(PDFName.of("AA"));
+      stripAction(annot);
+      if (
+        subtype !== "Link" &&
+        subtype !== "Popup" &&
+        !annot.has(PDFName.of("AP"))
+      )
+        report(
+          `page ${i + 1} has a ${subtype} annotation without an appearance.`
+        );
+    }
+  });
+}
+
+function fixCatalog(pdf: PDFDocument) {
+  const { catalog } = pdf;
+  catalog.delete(PDFName.of("AA"));
+  stripAction(catalog, "OpenAction");
+  const names = catalog.lookup(PDFName.of("Names"));
+  if (names instanceof PDFDict) {
+    names.delete(PDFName.of("JavaScript"));
+    names.delete(PDFName.of("EmbeddedFiles"));
+  }
+  const form = catalog.lookup(PDFName.of("AcroForm"));
+  if (form instanceof PDFDict) form.delete(PDFName.of("NeedAppearances"));
+}
+
+function fixImages(pdf: PDFDocument, report: (msg: string) => void) {
+  for (const [, obj] of pdf.context.enumerateIndirectObjects()) {
+    if (!(obj instanceof PDFStream)) continue;
+    const { dict } = obj;
+    const subtype = dict.get(PDFName.of("Subtype"));
+    if (subtype === PDFName.of("PS")) report("contains PostScript XObjects.");
+    if (subtype !== PDFName.of("Image")) continue;
+    dict.delete(PDFName.of("Interpolate"));
+    dict.delete(PDFName.of("Alternates"));
+    dict.delete(PDFName.of("OPI"));
+    if (dict.get(PDFName.of("ColorSpace")) === PDFName.of("DeviceCMYK"))
+      report("contains CMYK images; the output intent is sRGB only.");
+  }
+}
+
+/**
+ * Make `pdf` conform to PDF/A-2b as far as possible: embed fonts, add an
+ * sRGB output intent and a document ID, and remove what the standard
+ * forbids (JavaScript, launch actions, attachments, hidden annotations).
+ * Call setDocumentMetadata afterwards for the XMP claim. Returns the
+ * problems that could not be fixed.
+ */
+export async function convertToPdfA(pdf: PDFDocument): Promise<string[]> {
+  const problems = new Set<string>();
+  const report = (msg: string) => problems.add(`PDF/A-2b: ${msg}`);
+
+  // pdf-lib writes fonts and images drawn since loading only when saving.
+  await pdf.flush();
+  await embedFonts(pdf, report);
+  fixCatalog(pdf);
+  fixAnnotations(pdf, report);
+  fixImages(pdf, report);
+
+  const { context } = pdf;
+  const profile = context.flateStream(srgbIccProfile(), { N: 3 });
+  const intent = context.obj({
+    Type: "OutputIntent",
+    S: "GTS_PDFA1",
+    OutputConditionIdentifier: PDFString.of(SRGB),
+    Info: PDFString.of(SRGB),
+    RegistryName: PDFString.of("http://www.color.org"),
+    DestOutputProfile: context.register(profile),
+  });
+  pdf.catalog.set(
+    PDFName.of("OutputIntents"),
+    context.obj([context.register(intent)])
+  );
+
+  const id = PDFHexString.of(
+    [...crypto.getRandomValues(new Uint8Array(16))]
+      .map((b) => b.toString(16).padStart(2, "0"))
+      .join("")
+  );
+  context.trailerInfo.ID = context.obj([id, id]);
+  return [...problems];
+}
@@ -0,0 +1,154 @@
+// src/pool.ts
+import { HTTPException } from "hono/http-exception";
+import { cpus } from "os";
+import {
+  observeStage,
+  recordSubprocessFailure,
+  registerGauge,
+} from "./metrics";
+
+/* ------------------------------- Constants -------------------------------- */
+export const SPAWN_CONCURRENCY = Math.max(
+  1,
+  Number(process.env.SPAWN_CONCURRENCY || cpus().length || 1)
+);
+export const SPAWN_QUEUE_LIMIT = Number(process.env.SPAWN_QUEUE_LIMIT || 100);
+export const SPAWN_TIMEOUT_MS = Number(process.env.SPAWN_TIMEOUT_MS || 120_000);
+
+/* --------------------------------- Types ---------------------------------- */
+export type ProcessResult = { code: number; stdout: string; stderr: string };
+
+export type PoolStats = {
+  maxConcurrency: number;
+  maxQueue: number;
+  timeoutMs: number;
+  active: number;
+  queued: number;
+  completed: number;
+  failed: number;
+  timedOut: number;
+  rejected: number;
+};
+
+/* --------------------------------- Pool ----------------------------------- */
+/**
+ * Runs subprocesses with at most `maxConcurrency` alive at once. Callers
+ * beyond that wait in a FIFO queue; once the queue is full new work is
+ * refused with a 503 carrying Retry-After.
+ */
+export class ProcessPool {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+  private counts = { completed: 0, failed: 0, timedOut: 0, rejected: 0 };
+  private avgMs = 1000;
+
+  constructor(
+    readonly maxConcurrency: number,
+    readonly maxQueue: number,
+    readonly timeoutMs: number
+  ) {}
+
+  stats(): PoolStats {
+    return {
+      maxConcurrency: this.maxConcurrency,
+      maxQueue: this.maxQueue,
+      timeoutMs: this.timeoutMs,
+      active: this.active,
+      queued: this.waiting.length,
+      ...this.counts,
+    };
+  }
+
+  /** Rough seconds until a newly queued process would start. */
+  private retryAfterSecs() {
+    const ahead = this.waiting.length / this.maxConcurrency + 1;
+    return Math.max(1, Math.ceil((this.avgMs * ahead) / 1000));
+  }
+
+  private async acquire() {
+    if (this.active < this.maxConcurrency) {
+      this.active++;
+      return;
+    }
+    if (this.waiting.length >= this.maxQueue) {
+      this.counts.rejected++;
+      throw new HTTPException(503, {
+        message: "Server busy: conversion queue is full. Try again later.",
+        res: new Response(null, {
+          headers: { "Retry-After": String(this.retryAfterSecs()) },
+        }),
+      });
+    }
+    // The releasing caller hands its slot straight to us.
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  private release() {
+    const next = this.waiting.shift();
+    if (next) next();
+    else this.active--;
+  }
+
+  /** Spawn `cmd` once a slot is free; kills it if it outlives the timeout. */
+  async run(cmd: string[], label = cmd[0]): Promise<ProcessResult> {
+    await this.acquire().catch((err) => {
+      recordSubprocessFailure(label, "rejected");
+      throw err;
+    });
+    const started = Date.now();
+    try {
+      let proc;
+      try {
+        proc = Bun.spawn(cmd, { stdout: "pipe", stderr: "pipe" });
+      } catch (err) {
+        recordSubprocessFailure(label, "spawn");
+        throw err;
+      }
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        proc.kill("SIGKILL");
+      }, this.timeoutMs);
+
+      const [stdout, stderr] = await Promise.all([
+        new Response(proc.stdout).text(),
+        new Response(proc.stderr).text(),
+      ]).finally(() => clearTimeout(timer));
+      const code = await proc.exited;
+
+      if (timedOut) {
+        this.counts.timedOut++;
+        recordSubprocessFailure(label, "timeout");
+        throw new HTTPException(504, {
+          message: `${label} timed out after ${Math.ceil(
+            this.timeoutMs / 1000
+          )}s and was killed.`,
+        });
+      }
+      this.counts[code === 0 ? "completed" : "failed"]++;
+      if (code !== 0) recordSubprocessFailure(label, "exit");
+      return { code, stdout, stderr };
+    } finally {
+      observeStage(label, (Date.now() - started) / 1000);
+      this.avgMs = this.avgMs * 0.8 + (Date.now() - started) * 0.2;
+      this.release();
+    }
+  }
+}
+
+export const processPool = new ProcessPool(
+  SPAWN_CONCURRENCY,
+  SPAWN_QUEUE_LIMIT,
+  SPAWN_TIMEOUT_MS
+);
+
+registerGauge(
+  "subprocesses_active",
+  "Subprocesses running now.",
+  () => processPool.stats().active
+);
+registerGauge(
+  "subprocesses_queued",
+  "Subprocesses waiting for a free slot.",
+  () => processPool.stats().queued
+);
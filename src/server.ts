@@ -1,38 +1,104 @@
 // src/server.ts
-import { Hono } from "hono";
+import { Context, Hono } from "hono";
 import { cors } from "hono/cors";
 import { HTTPException } from "hono/http-exception";
+import { createMiddleware } from "hono/factory";
 import { prettyJSON } from "hono/pretty-json";
-import mammoth from "mammoth";
+import { requestId } from "hono/request-id";
+import { matchedRoutes } from "hono/route";
 import { basename, extname } from "path";
 import {
-  BASE_CSS,
+  AUTH_ENABLED,
+  ApiKey,
+  CORS_ORIGINS,
+  SCOPES,
+  loadApiKeys,
+  requireApiKey,
+} from "./auth";
+import {
+  ConvertOutput,
   MAX_FILE_BYTES,
   assertStartupDependencies,
-  downloadUrlToTemp,
+  convertBatch,
+  convertDetected,
+  convertUrls,
+  convertWith,
+  describeError,
+  etagMatches,
   enforceFileLimit,
   enforceStringLimit,
+  finishPdf,
+  getConverter,
   getUnrtfVersion,
-  getUrlFromRequest,
   getWKVersion,
-  guessExtFromContentType,
   hasUnrtf,
   hasWK,
-  htmlToPdfWithWK_toPath,
-  normalizeHtmlWrapper,
+  hasWKImage,
+  loadAsPdf,
+  partOptions,
+  readConvertOptions,
   readFormFile,
-  rtfToHtmlWithUnrtf,
+  readRequestFields,
+  readUrlRequest,
   streamFile,
-  txtToPdf_toPath,
-  unzipToMap,
   zipFromMap_toPath,
 } from "./convert";
+import {
+  JOB_TTL_MS,
+  createJobFromRequest,
+  getJob,
+  jobResultUrl,
+  publicJob,
+  resultPath,
+  resumeJobs,
+  storeCompletedJob,
+  streamJobResult,
+} from "./jobs";
+import { cacheStats, purgeCache } from "./cache";
+import { ACCESS_LOG, logJson, runWithRequestId } from "./logging";
+import { observeRequest, renderMetrics, runWithRoute } from "./metrics";
+import { parseConvertOptions, parseFlag } from "./options";
+import {
+  SPLIT_MAX_PARTS,
+  copyPagesToNew,
+  loadPdf,
+  mergePdfs,
+  parsePageRanges,
+  parseSplitGroups,
+  savePdf_toPath,
+  stampPdf,
+} from "./pdf-tools";
+import { processPool } from "./pool";
+import {
+  documentName,
+  listTemplates,
+  loadTemplate,
+  readRenderData,
+  readRenderRecords,
+  renderRecords,
+} from "./templates";
+import { listThemes } from "./themes";
+import { notifyCallback, readCallback } from "./webhooks";
+import {
+  TEMP_TTL_MS,
+  TempWorkspace,
+  getSweepStats,
+  releaseAfterBody,
+  runInWorkspace,
+  startTempSweeper,
+} from "./workspace";
 
 // --- Fail fast on startup ---
 await (async () => {
   try {
     await assertStartupDependencies({ requireWK: true, requireUnrtf: true });
     console.log("[startup] ✅ Dependencies OK: wkhtmltopdf + unrtf available");
+    if (AUTH_ENABLED) {
+      const keys = await loadApiKeys();
+      console.log(`[startup] 🔑 ${keys.size} API key(s) loaded`);
+    } else {
+      console.warn("[startup] ⚠️ No API_KEYS / API_KEYS_FILE: API is open");
+    }
   } catch (err) {
     console.error(
       "[startup] ❌ Dependency check failed:",
@@ -42,17 +108,95 @@ await (async () => {
   }
 })();
 
-const app = new Hono();
-app.use("*", cors());
+startTempSweeper();
+
+// --- Pick up jobs left queued or running by the previous process ---
+resumeJobs().then((n) => {
+  if (n) console.log(`[startup] Resumed ${n} pending job(s)`);
+});
+
+type AppEnv = {
+  Variables: { output: ConvertOutput; apiKey: ApiKey; requestId: string };
+};
+
+const app = new Hono<AppEnv>();
+// X-Request-Id (the caller's, or a new UUID) is echoed back, logged, and
+// included in error bodies.
+app.use("*", requestId());
+
+// One JSON access-log line and the HTTP metrics per request; conversions it
+// starts are counted under its route.
+app.use("*", async (c, next) => {
+  const started = performance.now();
+  const handlers = matchedRoutes(c).filter((r) => r.method !== "ALL");
+  const route = handlers[handlers.length - 1]?.path ?? "unmatched";
+  await runWithRequestId(c.get("requestId"), () => runWithRoute(route, next));
+
+  const { status } = c.res;
+  const seconds = (performance.now() - started) / 1000;
+  observeRequest(route, c.req.method, status, seconds);
+  if (!ACCESS_LOG && status < 500) return;
+  logJson(
+    status >= 500 ? "ERROR" : status >= 400 ? "WARNING" : "INFO",
+    `${c.req.method} ${c.req.path} ${status}`,
+    {
+      requestId: c.get("requestId"),
+      route,
+      apiKey: c.get("apiKey")?.id,
+      httpRequest: {
+        requestMethod: c.req.method,
+        requestUrl: c.req.path,
+        status,
+        latency: `${seconds.toFixed(3)}s`,
+        requestSize: c.req.header("content-length"),
+        responseSize: c.res.headers.get("content-length") ?? undefined,
+        userAgent: c.req.header("user-agent"),
+      },
+      error: c.error ? describeError(c.error).message : undefined,
+    }
+  );
+});
+
+app.use(
+  "*",
+  cors({
+    origin: CORS_ORIGINS.includes("*") ? "*" : CORS_ORIGINS,
+    exposeHeaders: [
+      "Content-Disposition",
+      "ETag",
+      "X-Cache",
+      "X-Conversion-Warnings",
+      "X-Request-Id",
+      "X-RateLimit-Limit",
+      "X-RateLimit-Remaining",
+      "X-RateLimit-Reset",
+      "X-Quota-Bytes-Remaining",
+      "X-Quota-Pages-Remaining",
+      "Retry-After",
+    ],
+  })
+);
 app.use("*", prettyJSON());
+// Once keys are configured every route but / and /health needs one.
+app.use("*", requireApiKey);
+
+// Scratch files created while handling a request are deleted once the
+// response has been streamed (or straight away if the handler failed).
+app.use("*", async (c, next) => {
+  const ws = new TempWorkspace();
+  await runInWorkspace(ws, next);
+  if (c.error) await ws.cleanup();
+  else c.res = releaseAfterBody(c.res, ws);
+});
 
 /* ------------------------------- Health ----------------------------------- */
 app.get("/health", async (c) => {
-  const [wkOk, unOk, wkVer, unVer] = await Promise.all([
+  const [wkOk, unOk, wkVer, unVer, wkImgOk] = await Promise.all([
     hasWK(),
     hasUnrtf(),
     getWKVersion(),
     getUnrtfVersion(),
+    hasWKImage(),
   ]);
   const healthy = wkOk && unOk;
   return c.json({
@@ -68,8 +212,15 @@ app.get("/health", async (c) => {
         version: unVer,
         path: process.env.UNRTF_PATH || "unrtf",
       },
+      // Optional: only needed for png/jpeg output.
+      wkhtmltoimage: {
+        present: wkImgOk,
+        path: process.env.WKHTMLTOIMAGE_PATH || "wkhtmltoimage",
+      },
     },
     config: { maxUploadBytes: MAX_FILE_BYTES },
+    pool: processPool.stats(),
+    tempSweeper: { ttlMs: TEMP_TTL_MS, ...getSweepStats() },
     runtime: {
       pid: process.pid,
       bunVersion: Bun.version,
@@ -87,105 +238,252 @@ app.get("/", (c) =>
     ok: true,
     service: "Local document conversion API (no LibreOffice)",
     runtime: "Bun",
+    auth: AUTH_ENABLED
+      ? `Authorization: Bearer <key> or X-API-Key on every route but / and /health; keys are scoped to ${SCOPES.join(", ")}`
+      : "none",
     endpoints: [
       {
         method: "GET",
         path: "/health",
         desc: "Check dependency health & versions",
       },
+      {
+        method: "GET",
+        path: "/metrics",
+        desc: "Prometheus metrics: requests, conversions by input/route/outcome, stage durations, input/output sizes, subprocess failures",
+      },
       {
         method: "POST",
-        path: "/convert/txt",
+        path: "/api/convert/txt",
         desc: "file=*.txt  → PDF (pdf-lib)",
       },
       {
         method: "POST",
-        path: "/convert/rtf",
+        path: "/api/convert/rtf",
         desc: "file=*.rtf  → PDF (unrtf→wkhtmltopdf)",
       },
       {
         method: "POST",
-        path: "/convert/docx",
-        desc: "file=*.docx → PDF (mammoth→wkhtmltopdf)",
+        path: "/api/convert/docx",
+        desc: "file=*.docx → PDF (mammoth→wkhtmltopdf) [+ styleMap rules, styleProfile name]; lost formatting is reported in X-Conversion-Warnings",
       },
       {
         method: "POST",
-        path: "/convert/html",
+        path: "/api/convert/html",
         desc: 'file=*.html or field "html" → PDF (wkhtmltopdf)',
       },
+      {
+        method: "POST",
+        path: "/api/convert/md",
+        desc: "file=*.md|*.markdown → PDF (GitHub-flavoured Markdown→wkhtmltopdf)",
+      },
+      {
+        method: "POST",
+        path: "/api/convert/csv",
+        desc: "file=*.csv|*.tsv → PDF (table, header row repeated on every page)",
+      },
+      {
+        method: "POST",
+        path: "/api/convert/json",
+        desc: "file=*.json → PDF (pretty-printed, syntax highlighted)",
+      },
+      {
+        method: "POST",
+        path: "/api/convert/xml",
+        desc: "file=*.xml  → PDF (syntax highlighted)",
+      },
+      {
+        method: "POST",
+        path: "/api/convert/odt",
+        desc: "file=*.odt  → PDF (OpenDocument text→wkhtmltopdf)",
+      },
+      {
+        method: "POST",
+        path: "/api/convert/epub",
+        desc: "file=*.epub → PDF (title page + chapters in spine order)",
+      },
+      {
+        method: "POST",
+        path: "/api/convert/eml",
+        desc: "file=*.eml  → PDF (headers + body, attachments listed); attachments=append adds their pages",
+      },
+      {
+        method: "POST",
+        path: "/api/convert/msg",
+        desc: "file=*.msg  → PDF (Outlook message, same as /api/convert/eml)",
+      },
       {
         method: "POST",
         path: "/convert/zip",
-        desc: "file=*.zip  → ZIP (PDF-only inside)",
+        desc: "file=*.zip  → ZIP of PDFs + manifest.json [passthrough=true keeps other files]; ?output=merged[&toc=true] → one PDF",
+      },
+      {
+        method: "POST",
+        path: "/convert",
+        desc: "file=<any supported type> → PDF (type auto-detected); output=html|md|txt|png|jpeg [+ imageWidth, fullPage, imageQuality] on any convert route; repeats are served from a cache (ETag, X-Cache: HIT|MISS, If-None-Match → 304); title, author, subject, keywords, creator and xmp={name: value} set the PDF's metadata; pdfa=2b → archival PDF/A-2b, with what could not be made conformant in X-Conversion-Warnings",
+      },
+      {
+        method: "GET",
+        path: "/themes",
+        desc: "Names usable as theme=<name> on any convert route (CSS + optional header/footer HTML); css=<extra CSS> applies on top",
       },
       {
         method: "POST",
         path: "/convert/url",
-        desc: "JSON {url} or form field url → fetch & convert",
+        desc: "JSON {url | urls[]} or form field url (repeatable) [+ headers, bearerToken, basicAuth, cookie] → fetch & convert; several URLs → ZIP of PDFs, or one PDF with output=merged (public hosts only, rendered sandboxed); capture=true [+ jsDelay, windowWidth, windowHeight, mediaType, paging=viewport, cookies (sent to the requested hosts only)] renders the page with its own assets",
+      },
+      {
+        method: "POST",
+        path: "/render/:template",
+        desc: 'JSON { data: {...} } [+ filename="invoice-{{number}}", options] → PDF from the named Handlebars template (helpers: formatDate, formatCurrency, formatNumber, eq; partials via {{> name}})',
+      },
+      {
+        method: "POST",
+        path: "/render/:template/batch",
+        desc: "JSON { records: [{...}, ...] } [+ filename pattern] → ZIP of PDFs (with manifest), or one PDF with output=merged",
+      },
+      {
+        method: "GET",
+        path: "/templates",
+        desc: "Names of the registered templates",
+      },
+      {
+        method: "POST",
+        path: "/jobs",
+        desc: "Same inputs as /convert or /convert/url → 202 with job id",
+      },
+      {
+        method: "POST",
+        path: "/pdf/stamp",
+        desc: 'file=*.pdf + watermark="DRAFT" or JSON (image=*.png optional)',
+      },
+      {
+        method: "POST",
+        path: "/pdf/merge",
+        desc: "file=… (repeated, PDF or convertible) [+ order, bookmarks, toc] → PDF",
+      },
+      {
+        method: "POST",
+        path: "/pdf/split",
+        desc: `file=*.pdf + ranges="1-3;4-" or every=N → ZIP of PDFs (at most ${SPLIT_MAX_PARTS} parts)`,
+      },
+      {
+        method: "POST",
+        path: "/pdf/extract",
+        desc: 'file=*.pdf + pages="1-3,5" → PDF',
+      },
+      {
+        method: "GET",
+        path: "/jobs/:id",
+        desc: "Job status: queued | running | succeeded | failed",
+      },
+      {
+        method: "GET",
+        path: "/jobs/:id/result",
+        desc: `Stream the finished job's output (jobs are deleted ${JOB_TTL_MS / 3_600_000}h after finishing)`,
+      },
+      {
+        method: "GET",
+        path: "/admin/cache",
+        desc: "Conversion cache stats (entries, bytes, hits, misses, evictions)",
+      },
+      {
+        method: "DELETE",
+        path: "/admin/cache",
+        desc: "Purge the conversion cache",
       },
     ],
   })
 );
 
 /* -------------------------------- Routes ---------------------------------- */
-// TXT → PDF (streamed)
-app.post("/api/convert/txt", async (c) => {
-  const file = await readFormFile(c, "file");
-  enforceFileLimit(file);
-  const name = file.name || "document.txt";
-  if (!/\.txt$/i.test(name))
-    throw new HTTPException(400, { message: "Please upload a .txt file." });
+// Stream a conversion result, remembering it for the middleware below.
+// Cacheable results carry an ETag; a matching If-None-Match gets a 304,
+// usually decided by convertWith before anything was converted.
+function sendOutput(c: Context<AppEnv>, out: ConvertOutput) {
+  const cacheHeaders: Record<string, string> = out.cache
+    ? {
+        ETag: `"${out.cache.key}"`,
+        "X-Cache": out.cache.hit ? "HIT" : "MISS",
+        // Clients may keep the file, but should revalidate with the ETag.
+        "Cache-Control": "private, no-cache",
+      }
+    : {};
+  if (
+    out.notModified ||
+    (out.cache && etagMatches(c.req.header("if-none-match"), cacheHeaders.ETag))
+  )
+    return c.body(null, 304, cacheHeaders);
+  c.set("output", out);
+  const res = streamFile(out.path, out.filename, out.mime, out.warnings);
+  for (const [k, v] of Object.entries(cacheHeaders)) res.headers.set(k, v);
+  return res;
+}
 
-  const bytes = new Uint8Array(await file.arrayBuffer());
-  const pdfPath = await txtToPdf_toPath(bytes, name);
-  return streamFile(
-    pdfPath,
-    `${basename(name, ".txt")}.pdf`,
-    "application/pdf"
+// Any conversion route accepts `callbackUrl` (+ `callbackSecret`); once the
+// route finishes, the result is kept as a job and the callback is notified.
+const conversionCallbacks = createMiddleware<AppEnv>(async (c, next) => {
+  const target = await readCallback(c);
+  await next();
+  // A 304 produced nothing new; the client already has the result.
+  if (!target || c.res.status === 304) return;
+
+  const out = c.get("output");
+  if (c.error || !out) {
+    notifyCallback(target, {
+      error: describeError(c.error ?? new Error("No output produced")),
+    });
+    return;
+  }
+  const job = await storeCompletedJob(
+    out,
+    { kind: "request", route: c.req.path },
+    c.get("apiKey")?.id
   );
+  notifyCallback(target, {
+    jobId: job.id,
+    // The job's copy outlives the request's scratch files.
+    output: { ...out, path: resultPath(job.id) },
+    downloadUrl: jobResultUrl(c, job.id),
+  });
 });
+// "/convert/*" matches "/convert" itself too.
+app.use("/api/convert/*", conversionCallbacks);
+app.use("/convert/*", conversionCallbacks);
+app.use("/pdf/*", conversionCallbacks);
+app.use("/render/*", conversionCallbacks);
 
-// RTF → PDF (unrtf → HTML → wkhtmltopdf) streamed
-app.post("/api/convert/rtf", async (c) => {
+// Upload routes pinned to one input type; the extension check gives a
+// friendlier error than the registry's content sniffing would.
+async function convertUpload(c: Context<AppEnv>, type: string, exts: RegExp) {
   const file = await readFormFile(c, "file");
   enforceFileLimit(file);
-  const name = file.name || "document.rtf";
-  if (!/\.rtf$/i.test(name))
-    throw new HTTPException(400, { message: "Please upload a .rtf file." });
-
-  const rtfBytes = new Uint8Array(await file.arrayBuffer());
-  const rawHtml = await rtfToHtmlWithUnrtf(rtfBytes);
-  const htmlDoc = `<!doctype html><html><head><meta charset="utf-8"><style>${BASE_CSS}</style></head><body>${rawHtml}</body></html>`;
-  const pdfPath = await htmlToPdfWithWK_toPath(htmlDoc, basename(name, ".rtf"));
-  return streamFile(
-    pdfPath,
-    `${basename(name, ".rtf")}.pdf`,
-    "application/pdf"
-  );
-});
+  const conv = getConverter(type);
+  const name = file.name || `document${conv.exts[0]}`;
+  if (!exts.test(name))
+    throw new HTTPException(400, {
+      message: `Please upload a ${conv.exts[0]} file.`,
+    });
+
+  const options = await readConvertOptions(c);
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const out = await convertWith(conv, {
+    bytes,
+    filename: name,
+    options,
+    ifNoneMatch: c.req.header("if-none-match"),
+  });
+  return sendOutput(c, out);
+}
+
+// TXT → PDF (pdf-lib) streamed
+app.post("/api/convert/txt", (c) => convertUpload(c, "txt", /\.txt$/i));
+
+// RTF → PDF (unrtf → HTML → wkhtmltopdf) streamed
+app.post("/api/convert/rtf", (c) => convertUpload(c, "rtf", /\.rtf$/i));
 
 // DOCX → PDF (mammoth → HTML → wkhtmltopdf) streamed
-app.post("/api/convert/docx", async (c) => {
-  const file = await readFormFile(c, "file");
-  enforceFileLimit(file);
-  const name = file.name || "document.docx";
-  if (!/\.docx$/i.test(name))
-    throw new HTTPException(400, { message: "Please upload a .docx file." });
-
-  const arrayBuffer = await file.arrayBuffer();
-  const buffer = Buffer.from(arrayBuffer);
-  const { value: html } = await mammoth.convertToHtml({ buffer });
-  const htmlDoc = `<!doctype html><html><head><meta charset="utf-8"><style>${BASE_CSS}</style></head><body>${html}</body></html>`;
-  const pdfPath = await htmlToPdfWithWK_toPath(
-    htmlDoc,
-    basename(name, ".docx")
-  );
-  return streamFile(
-    pdfPath,
-    `${basename(name, ".docx")}.pdf`,
-    "application/pdf"
-  );
-});
+app.post("/api/convert/docx", (c) => convertUpload(c, "docx", /\.docx$/i));
 
 // HTML → PDF (wkhtmltopdf) streamed
 // Accepts EITHER multipart file=*.html/htm OR multipart field "html" (string)
@@ -194,229 +492,312 @@ app.post("/api/convert/html", async (c) => {
   const htmlField = form.get("html");
   const maybeFile = form.get("file");
 
-  let html = "";
+  let bytes: Uint8Array;
+  let name = "document.html";
   if (maybeFile instanceof File) {
     enforceFileLimit(maybeFile);
-    const name = maybeFile.name || "document.html";
+    name = maybeFile.name || name;
     if (!/\.(html?|xhtml)$/i.test(name))
       throw new HTTPException(400, {
         message: 'Please upload a .html/.htm file or provide an "html" field.',
       });
-    html = await maybeFile.text();
+    bytes = new Uint8Array(await maybeFile.arrayBuffer());
   } else if (typeof htmlField === "string") {
     enforceStringLimit("HTML content", htmlField);
-    html = htmlField;
+    bytes = new TextEncoder().encode(htmlField);
   } else {
     throw new HTTPException(400, {
       message: 'Provide either file=*.html or a text field "html".',
     });
   }
 
-  const wrapped = normalizeHtmlWrapper(html);
-  const pdfPath = await htmlToPdfWithWK_toPath(wrapped, "html-upload");
-  return streamFile(pdfPath, "document.pdf", "application/pdf");
+  const out = await convertWith(getConverter("html"), {
+    bytes,
+    filename: name,
+    options: await readConvertOptions(c),
+    ifNoneMatch: c.req.header("if-none-match"),
+  });
+  return sendOutput(c, out);
 });
 
+// Markdown → PDF (marked → HTML → wkhtmltopdf) streamed
+app.post("/api/convert/md", (c) => convertUpload(c, "md", /\.(md|markdown)$/i));
+
+// CSV/TSV → PDF (table → wkhtmltopdf) streamed
+app.post("/api/convert/csv", (c) => convertUpload(c, "csv", /\.(csv|tsv)$/i));
+
+// JSON → PDF (highlighted → wkhtmltopdf) streamed
+app.post("/api/convert/json", (c) => convertUpload(c, "json", /\.json$/i));
+
+// XML → PDF (highlighted → wkhtmltopdf) streamed
+app.post("/api/convert/xml", (c) => convertUpload(c, "xml", /\.xml$/i));
+
+// ODT → PDF (content.xml → HTML → wkhtmltopdf) streamed
+app.post("/api/convert/odt", (c) => convertUpload(c, "odt", /\.odt$/i));
+
+// EPUB → PDF (spine → HTML → wkhtmltopdf) streamed
+app.post("/api/convert/epub", (c) => convertUpload(c, "epub", /\.epub$/i));
+
+// Email → PDF (MIME → HTML → wkhtmltopdf, attachments listed or appended)
+app.post("/api/convert/eml", (c) => convertUpload(c, "eml", /\.eml$/i));
+app.post("/api/convert/msg", (c) => convertUpload(c, "msg", /\.msg$/i));
+
 // ZIP → ZIP (PDF-only inside) streamed
-app.post("/convert/zip", async (c) => {
+app.post("/convert/zip", (c) => convertUpload(c, "zip", /\.zip$/i));
+
+// Any supported file → PDF (or ZIP of PDFs for archives), type auto-detected
+app.post("/convert", async (c) => {
   const file = await readFormFile(c, "file");
   enforceFileLimit(file);
-  const name = file.name || "archive.zip";
-  if (!/\.zip$/i.test(name))
-    throw new HTTPException(400, { message: "Please upload a .zip file." });
-
-  const zipBytes = new Uint8Array(await file.arrayBuffer());
-  const entries = unzipToMap(zipBytes);
-  const out = new Map<string, Uint8Array>();
-
-  for (const [path, data] of entries.entries()) {
-    const ext = extname(path).toLowerCase();
-    const buffer = Buffer.from(data);
-    if (ext === ".txt") {
-      const pdfPath = await txtToPdf_toPath(data, basename(path));
-      const pdfBytes = new Uint8Array(await Bun.file(pdfPath).arrayBuffer());
-      out.set(path.replace(/\.txt$/i, ".pdf"), pdfBytes);
-    } else if (ext === ".docx") {
-      const { value: html } = await mammoth.convertToHtml({ buffer });
-      const htmlDoc = `<!doctype html><html><head><meta charset="utf-8"><style>${BASE_CSS}</style></head><body>${html}</body></html>`;
-      const pdfPath = await htmlToPdfWithWK_toPath(htmlDoc, basename(path));
-      const pdfBytes = new Uint8Array(await Bun.file(pdfPath).arrayBuffer());
-      out.set(path.replace(/\.docx$/i, ".pdf"), pdfBytes);
-    } else if (ext === ".rtf") {
-      const rawHtml = await rtfToHtmlWithUnrtf(data);
-      const htmlDoc = `<!doctype html><html><head><meta charset="utf-8"><style>${BASE_CSS}</style></head><body>${rawHtml}</body></html>`;
-      const pdfPath = await htmlToPdfWithWK_toPath(htmlDoc, basename(path));
-      const pdfBytes = new Uint8Array(await Bun.file(pdfPath).arrayBuffer());
-      out.set(path.replace(/\.rtf$/i, ".pdf"), pdfBytes);
-    } else if (ext === ".html" || ext === ".htm") {
-      const wrapped = normalizeHtmlWrapper(new TextDecoder().decode(data));
-      const pdfPath = await htmlToPdfWithWK_toPath(wrapped, basename(path));
-      const pdfBytes = new Uint8Array(await Bun.file(pdfPath).arrayBuffer());
-      out.set(path.replace(/\.(html|htm)$/i, ".pdf"), pdfBytes);
-    }
-    // ignore others to keep output ZIP PDF-only
-  }
-
-  const outZipPath = await zipFromMap_toPath(
-    out,
-    basename(name, ".zip") + "-pdfs"
+  const options = await readConvertOptions(c);
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const out = await convertDetected(
+    {
+      bytes,
+      filename: file.name || "document",
+      options,
+      ifNoneMatch: c.req.header("if-none-match"),
+    },
+    file.type
   );
-  return streamFile(outZipPath, basename(outZipPath), "application/zip");
+  return sendOutput(c, out);
 });
 
 // URL → (PDF or convert) streamed
 app.post("/convert/url", async (c) => {
-  const urlStr = await getUrlFromRequest(c);
-  if (!/^https?:\/\//i.test(urlStr)) {
+  const out = await convertUrls(
+    await readUrlRequest(c),
+    await readConvertOptions(c),
+    c.req.header("if-none-match")
+  );
+  return sendOutput(c, out);
+});
+
+/* ------------------------------- Templates -------------------------------- */
+// Named Handlebars template + JSON data → document, rendered like HTML input
+app.post("/render/:template", async (c) => {
+  const template = await loadTemplate(c.req.param("template"));
+  const { data, filename } = await readRenderData(c);
+  const options = await readConvertOptions(c);
+  const stem = documentName(template, data, filename, template.name);
+  const out = await convertWith(getConverter("html"), {
+    bytes: new TextEncoder().encode(template.render(data)),
+    filename: `${stem}.html`,
+    options,
+    ifNoneMatch: c.req.header("if-none-match"),
+  });
+  return sendOutput(c, out);
+});
+
+// One document per record → ZIP (with manifest), or one PDF with output=merged
+app.post("/render/:template/batch", async (c) => {
+  const template = await loadTemplate(c.req.param("template"));
+  const { data, filename } = await readRenderRecords(c);
+  const options = await readConvertOptions(c);
+  const out = await convertBatch(
+    renderRecords(template, data, filename),
+    template.name,
+    options
+  );
+  return sendOutput(c, out);
+});
+
+app.get("/templates", async (c) =>
+  c.json({ templates: await listTemplates() })
+);
+
+/* ------------------------------ PDF tools --------------------------------- */
+async function readPdfUpload(c: Context<AppEnv>, key = "file") {
+  const file = await readFormFile(c, key);
+  enforceFileLimit(file);
+  const name = file.name || "document.pdf";
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (getConverter("pdf").sniff?.(bytes) !== true)
+    throw new HTTPException(400, { message: `${name} is not a PDF.` });
+  return { name, pdf: await loadPdf(bytes, name) };
+}
+
+// Stamp text (with {page} {pages} {bates}) or an image onto a PDF.
+// Options come from the "watermark" field; an image may be uploaded as "image".
+app.post("/pdf/stamp", async (c) => {
+  const { name, pdf } = await readPdfUpload(c);
+  const { watermark } = parseConvertOptions({
+    watermark: {},
+    ...(await readRequestFields(c)),
+  });
+  const image = (await c.req.formData()).get("image");
+
+  await stampPdf(
+    pdf,
+    watermark!,
+    image instanceof File
+      ? new Uint8Array(await image.arrayBuffer())
+      : undefined
+  );
+  const stem = basename(name, extname(name));
+  return sendOutput(c, {
+    path: await savePdf_toPath(pdf, stem),
+    filename: `${stem}.pdf`,
+    mime: "application/pdf",
+  });
+});
+
+// Merge PDFs and convertible documents into one PDF. Files are repeated
+// "file" fields, merged in upload order or as listed in "order" (1-based
+// positions or filenames, comma-separated); "bookmarks" adds an outline and
+// "toc" a contents page.
+app.post("/pdf/merge", async (c) => {
+  const form = await c.req.formData();
+  const files = form.getAll("file").filter((f) => f instanceof File);
+  if (!files.length)
     throw new HTTPException(400, {
-      message: "Only http(s) URLs are supported.",
+      message: "Upload the documents as repeated 'file' fields.",
     });
-  }
-
-  const {
-    path: tmpPath,
-    filename,
-    contentType,
-  } = await downloadUrlToTemp(urlStr, MAX_FILE_BYTES);
-  const ext = (extname(filename) || "").toLowerCase();
+  files.forEach(enforceFileLimit);
+  const fields = await readRequestFields(c);
+  const options = parseConvertOptions(fields);
 
-  // Fast-path: PDF as-is
-  if (
-    ext === ".pdf" ||
-    (contentType && guessExtFromContentType(contentType) === ".pdf")
-  ) {
-    return streamFile(tmpPath, filename, "application/pdf");
+  let ordered = files;
+  if (typeof fields.order === "string" && fields.order.trim()) {
+    ordered = fields.order.split(",").map((key) => {
+      const k = key.trim();
+      const f = /^\d+$/.test(k)
+        ? files[Number(k) - 1]
+        : files.find((x) => x.name === k);
+      if (!f)
+        throw new HTTPException(400, {
+          message: `order: no uploaded file matches "${k}".`,
+        });
+      return f;
+    });
   }
 
-  // TXT
-  if (
-    ext === ".txt" ||
-    (contentType && guessExtFromContentType(contentType) === ".txt")
-  ) {
-    const bytes = new Uint8Array(await Bun.file(tmpPath).arrayBuffer());
-    const pdfPath = await txtToPdf_toPath(bytes, filename);
-    return streamFile(
-      pdfPath,
-      `${basename(filename, ".txt")}.pdf`,
-      "application/pdf"
-    );
+  const sourceOptions = partOptions(options);
+  const sources = [];
+  for (const file of ordered) {
+    const name = file.name || "document";
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    sources.push({
+      title: basename(name, extname(name)),
+      pdf: await loadAsPdf(
+        { bytes, filename: name, options: sourceOptions },
+        file.type
+      ),
+    });
   }
 
-  // DOCX
-  if (
-    ext === ".docx" ||
-    (contentType && guessExtFromContentType(contentType) === ".docx")
-  ) {
-    const arrayBuffer = await Bun.file(tmpPath).arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-    const { value: html } = await mammoth.convertToHtml({ buffer });
-    const htmlDoc = `<!doctype html><html><head><meta charset="utf-8"><style>${BASE_CSS}</style></head><body>${html}</body></html>`;
-    const pdfPath = await htmlToPdfWithWK_toPath(
-      htmlDoc,
-      basename(filename, ".docx")
-    );
-    return streamFile(
-      pdfPath,
-      `${basename(filename, ".docx")}.pdf`,
-      "application/pdf"
-    );
-  }
+  const merged = await mergePdfs(sources, {
+    bookmarks: parseFlag(fields.bookmarks) ?? false,
+    toc: options.toc,
+  });
+  const out = await finishPdf(
+    {
+      path: await savePdf_toPath(merged, "merged"),
+      filename: "merged.pdf",
+      mime: "application/pdf",
+    },
+    options
+  );
+  return sendOutput(c, out);
+});
 
-  // RTF
-  if (
-    ext === ".rtf" ||
-    (contentType && guessExtFromContentType(contentType) === ".rtf")
-  ) {
-    const bytes = new Uint8Array(await Bun.file(tmpPath).arrayBuffer());
-    const rawHtml = await rtfToHtmlWithUnrtf(bytes);
-    const htmlDoc = `<!doctype html><html><head><meta charset="utf-8"><style>${BASE_CSS}</style></head><body>${rawHtml}</body></html>`;
-    const pdfPath = await htmlToPdfWithWK_toPath(
-      htmlDoc,
-      basename(filename, ".rtf")
-    );
-    return streamFile(
-      pdfPath,
-      `${basename(filename, ".rtf")}.pdf`,
-      "application/pdf"
-    );
-  }
+// Split a PDF by "ranges" ("1-3;4-6;7-") or "every" N pages → ZIP of parts.
+app.post("/pdf/split", async (c) => {
+  const { name, pdf } = await readPdfUpload(c);
+  const fields = await readRequestFields(c);
+  const groups = parseSplitGroups(pdf.getPageCount(), {
+    ranges: typeof fields.ranges === "string" ? fields.ranges : undefined,
+    every: fields.every !== undefined ? Number(fields.every) : undefined,
+  });
 
-  // HTML
-  if (
-    ext === ".html" ||
-    ext === ".htm" ||
-    (contentType && guessExtFromContentType(contentType) === ".html")
-  ) {
-    const htmlText = await Bun.file(tmpPath).text();
-    const wrapped = normalizeHtmlWrapper(htmlText);
-    const pdfPath = await htmlToPdfWithWK_toPath(
-      wrapped,
-      basename(filename, ext || ".html")
-    );
-    return streamFile(
-      pdfPath,
-      `${basename(filename, ext || ".html")}.pdf`,
-      "application/pdf"
-    );
+  const stem = basename(name, extname(name));
+  const parts = new Map<string, Uint8Array>();
+  for (const [i, indices] of groups.entries()) {
+    const part = await copyPagesToNew(pdf, indices);
+    parts.set(`${stem}-part${i + 1}.pdf`, await part.save());
   }
+  const outBase = `${stem}-split`;
+  return sendOutput(c, {
+    path: await zipFromMap_toPath(parts, outBase),
+    filename: `${outBase}.zip`,
+    mime: "application/zip",
+  });
+});
+
+// Extract "pages" ("1-3,5") from a PDF into a new PDF, in the order given.
+app.post("/pdf/extract", async (c) => {
+  const { name, pdf } = await readPdfUpload(c);
+  const { pages } = await readRequestFields(c);
+  if (typeof pages !== "string" || !pages.trim())
+    throw new HTTPException(400, {
+      message: 'Provide "pages", e.g. "1-3,5".',
+    });
 
-  // // ZIP
-  // if (
-  //   ext === ".zip" ||
-  //   (contentType && guessExtFromContentType(contentType) === ".zip")
-  // ) {
-  //   const zipBytes = new Uint8Array(await Bun.file(tmpPath).arrayBuffer());
-  //   const entries = unzipToMap(zipBytes);
-  //   const out = new Map<string, Uint8Array>();
-
-  //   for (const [p, data] of entries.entries()) {
-  //     const e = extname(p).toLowerCase();
-  //     const buffer = Buffer.from(data);
-  //     if (e === ".txt") {
-  //       const pdfPath = await txtToPdf_toPath(data, basename(p));
-  //       const pdfBytes = new Uint8Array(await Bun.file(pdfPath).arrayBuffer());
-  //       out.set(p.replace(/\.txt$/i, ".pdf"), pdfBytes);
-  //     } else if (e === ".docx") {
-  //       const { value: html } = await mammoth.convertToHtml({ buffer });
-  //       const htmlDoc = `<!doctype html><html><head><meta charset="utf-8"><style>${BASE_CSS}</style></head><body>${html}</body></html>`;
-  //       const pdfPath = await htmlToPdfWithWK_toPath(htmlDoc, basename(p));
-  //       const pdfBytes = new Uint8Array(await Bun.file(pdfPath).arrayBuffer());
-  //       out.set(p.replace(/\.docx$/i, ".pdf"), pdfBytes);
-  //     } else if (e === ".rtf") {
-  //       const rawHtml = await rtfToHtmlWithUnrtf(data);
-  //       const htmlDoc = `<!doctype html><html><head><meta charset="utf-8"><style>${BASE_CSS}</style></head><body>${rawHtml}</body></html>`;
-  //       const pdfPath = await htmlToPdfWithWK_toPath(htmlDoc, basename(p));
-  //       const pdfBytes = new Uint8Array(await Bun.file(pdfPath).arrayBuffer());
-  //       out.set(p.replace(/\.rtf$/i, ".pdf"), pdfBytes);
-  //     } else if (e === ".html" || e === ".htm") {
-  //       const wrapped = normalizeHtmlWrapper(new TextDecoder().decode(data));
-  //       const pdfPath = await htmlToPdfWithWK_toPath(wrapped, basename(p));
-  //       const pdfBytes = new Uint8Array(await Bun.file(pdfPath).arrayBuffer());
-  //       out.set(p.replace(/\.(html|htm)$/i, ".pdf"), pdfBytes);
-  //     }
-  //     // ignore others to keep output ZIP PDF-only
-  //   }
-
-  //   const outZipPath = await zipFromMap_toPath(
-  //     out,
-  //     basename(filename, ".zip") + "-pdfs"
-  //   );
-  //   return streamFile(outZipPath, basename(outZipPath), "application/zip");
-  // }
-
-  throw new HTTPException(415, {
-    message: `Unsupported remote type. Allowed: pdf, docx, txt, rtf, html, zip.`,
+  const stem = basename(name, extname(name));
+  const extracted = await copyPagesToNew(
+    pdf,
+    parsePageRanges(pages, pdf.getPageCount())
+  );
+  return sendOutput(c, {
+    path: await savePdf_toPath(extracted, `${stem}-pages`),
+    filename: `${stem}-pages.pdf`,
+    mime: "application/pdf",
   });
 });
 
+/* --------------------------------- Jobs ----------------------------------- */
+// Same inputs as /convert and /convert/url, but answers immediately with a
+// job id; poll /jobs/:id and fetch the output from /jobs/:id/result.
+app.post("/jobs", async (c) => {
+  const job = await createJobFromRequest(c);
+  return c.json({ ok: true, job: publicJob(job) }, 202);
+});
+
+app.get("/metrics", (c) =>
+  c.text(renderMetrics(), 200, {
+    "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+  })
+);
+
+/* --------------------------------- Admin ---------------------------------- */
+app.get("/admin/cache", async (c) =>
+  c.json({ ok: true, cache: await cacheStats() })
+);
+
+app.delete("/admin/cache", async (c) =>
+  c.json({ ok: true, removed: await purgeCache() })
+);
+
+app.get("/themes", async (c) => c.json({ themes: await listThemes() }));
+
+// Jobs are only visible to the API key that created them.
+async function getOwnJob(c: Context<AppEnv>) {
+  const job = await getJob(c.req.param("id")!);
+  if (!job || job.apiKey !== c.get("apiKey")?.id)
+    throw new HTTPException(404, { message: "Job not found." });
+  return job;
+}
+
+app.get("/jobs/:id", async (c) =>
+  c.json({ ok: true, job: publicJob(await getOwnJob(c)) })
+);
+
+app.get("/jobs/:id/result", async (c) => streamJobResult(await getOwnJob(c)));
+
 /* --------------------------- Error + bootstrap ---------------------------- */
 app.onError((err, c) => {
-  const status = err instanceof HTTPException ? err.status : 500;
-  const message =
-    err instanceof HTTPException
-      ? err.message
-      : (err as Error)?.message || "Internal error";
-  return c.json({ ok: false, error: message }, status);
+  const { status, message } = describeError(err);
+  const requestId = c.get("requestId");
+  if (status >= 500)
+    logJson("ERROR", message, {
+      requestId,
+      stack: err instanceof Error ? err.stack : undefined,
+    });
+  // Headers attached via `new HTTPException(..., { res })`, e.g. Retry-After.
+  const headers: Record<string, string> = {};
+  if (err instanceof HTTPException && err.res)
+    err.res.headers.forEach((v, k) => (headers[k] = v));
+  return c.json({ ok: false, error: message, requestId }, status, headers);
 });
 
 export default {
@@ -0,0 +1,274 @@
+// src/templates.ts
+import Handlebars, { HelperOptions } from "handlebars";
+import { readdir } from "fs/promises";
+import { HTTPException } from "hono/http-exception";
+import { basename, join } from "path";
+import { isRecord, readRequestFields, uniqueEntryPath } from "./convert";
+
+/* ------------------------------- Constants -------------------------------- */
+// <dir>/<name>.hbs per template; <dir>/partials/<name>.hbs are available to
+// all of them as {{> name}}.
+export const TEMPLATES_DIR =
+  process.env.TEMPLATES_DIR || join(process.cwd(), "templates");
+export const TEMPLATE_LOCALE = process.env.TEMPLATE_LOCALE || "en-US";
+export const RENDER_MAX_RECORDS = Number(process.env.RENDER_MAX_RECORDS || 500);
+
+const TEMPLATE_NAME_RE = /^[\w-]+$/;
+const PARTIALS_DIR = join(TEMPLATES_DIR, "partials");
+
+/* --------------------------------- Types ---------------------------------- */
+export type Template = {
+  name: string;
+  /** Merge `data` into the template; failures are a 422. */
+  render: (data: unknown) => string;
+  /**
+   * Render a plain-text pattern (not HTML-escaped): fields and the same
+   * formatting helpers, nothing else; a missing field is an error.
+   */
+  renderText: (source: string, data: unknown) => string;
+};
+
+/* -------------------------------- Helpers --------------------------------- */
+const DATE_STYLES = ["short", "medium", "long", "full"] as const;
+
+function toDate(value: unknown) {
+  const d =
+    value instanceof Date
+      ? value
+      : typeof value === "number" || typeof value === "string"
+        ? new Date(value)
+        : null;
+  return d && !isNaN(d.getTime()) ? d : null;
+}
+
+/**
+ * {{formatDate due "long"}}: short | medium (default) | long | full | iso,
+ * in UTC unless timeZone= is given, so bare dates don't shift a day.
+ * Hash: locale, timeZone, time=true (adds the time of day).
+ */
+function formatDate(value: unknown, ...args: unknown[]) {
+  const { hash } = args.pop() as HelperOptions;
+  const d = toDate(value);
+  if (!d) return value == null ? "" : String(value);
+  const style = typeof args[0] === "string" ? args[0] : "medium";
+  if (style === "iso") return d.toISOString().slice(0, 10);
+  return new Intl.DateTimeFormat(hash.locale ?? TEMPLATE_LOCALE, {
+    dateStyle: (DATE_STYLES as readonly string[]).includes(style)
+      ? (style as (typeof DATE_STYLES)[number])
+      : "medium",
+    timeStyle: hash.time ? "short" : undefined,
+    timeZone: hash.timeZone ?? "UTC",
+  }).format(d);
+}
+
+/** {{formatCurrency total "EUR"}} (default USD). Hash: locale. */
+function formatCurrency(value: unknown, ...args: unknown[]) {
+  const { hash } = args.pop() as HelperOptions;
+  const n = typeof value === "string" ? Number(value) : value;
+  if (typeof n !== "number" || isNaN(n))
+    return value == null ? "" : String(value);
+  return new Intl.NumberFormat(hash.locale ?? TEMPLATE_LOCALE, {
+    style: "currency",
+    currency: typeof args[0] === "string" ? args[0] : "USD",
+  }).format(n);
+}
+
+/** {{formatNumber qty 2}}: grouped, with a fixed number of decimals. */
+function formatNumber(value: unknown, ...args: unknown[]) {
+  const { hash } = args.pop() as HelperOptions;
+  const n = typeof value === "string" ? Number(value) : value;
+  if (typeof n !== "number" || isNaN(n))
+    return value == null ? "" : String(value);
+  const decimals =
+    typeof args[0] === "number" ? Math.min(Math.max(args[0], 0), 20) : null;
+  return new Intl.NumberFormat(hash.locale ?? TEMPLATE_LOCALE, {
+    minimumFractionDigits: decimals ?? undefined,
+    maximumFractionDigits: decimals ?? 20,
+  }).format(n);
+}
+
+const HELPERS = {
+  formatDate,
+  formatCurrency,
+  formatNumber,
+  eq: (a: unknown, b: unknown) => a === b,
+};
+
+function createEnvironment() {
+  const hbs = Handlebars.create();
+  hbs.registerHelper(HELPERS);
+  return hbs;
+}
+
+// Text patterns come from the request, so they get fields and the helpers
+// above only: no partials, blocks, decorators, or built-ins like {{log}}.
+const TEXT_KNOWN_HELPERS = {
+  ...Object.fromEntries(Object.keys(HELPERS).map((k) => [k, true])),
+  ...Object.fromEntries(
+    [
+      "helperMissing",
+      "blockHelperMissing",
+      "each",
+      "if",
+      "unless",
+      "with",
+      "log",
+      "lookup",
+    ].map((k) => [k, false])
+  ),
+};
+
+function compileText(hbs: typeof Handlebars, source: string) {
+  const ast = hbs.parse(source);
+  for (const node of ast.body)
+    if (
+      !["ContentStatement", "MustacheStatement", "CommentStatement"].includes(
+        node.type
+      )
+    )
+      throw new Error(
+        `patterns may only use {{field}} and ${Object.keys(HELPERS).join(", ")}.`
+      );
+  return hbs.compile(ast, {
+    noEscape: true,
+    strict: true,
+    knownHelpers: TEXT_KNOWN_HELPERS,
+    knownHelpersOnly: true,
+  });
+}
+
+/* -------------------------------- Loading --------------------------------- */
+export const isTemplateName = (name: string) => TEMPLATE_NAME_RE.test(name);
+
+export async function listTemplates(): Promise<string[]> {
+  const files = await readdir(TEMPLATES_DIR).catch(() => []);
+  return files
+    .filter((f) => f.endsWith(".hbs") && isTemplateName(basename(f, ".hbs")))
+    .map((f) => basename(f, ".hbs"))
+    .sort();
+}
+
+/**
+ * Read a template and the shared partials from disk (no caching, so edits
+ * apply to the next request). Unknown names are a 404.
+ */
+export async function loadTemplate(name: string): Promise<Template> {
+  const file =
+    isTemplateName(name) && Bun.file(join(TEMPLATES_DIR, `${name}.hbs`));
+  if (!file || !(await file.exists()))
+    throw new HTTPException(404, { message: `Unknown template "${name}".` });
+
+  const hbs = createEnvironment();
+  for (const f of await readdir(PARTIALS_DIR).catch(() => []))
+    if (f.endsWith(".hbs"))
+      hbs.registerPartial(
+        basename(f, ".hbs"),
+        await Bun.file(join(PARTIALS_DIR, f)).text()
+      );
+
+  // Handlebars compiles lazily: syntax errors, missing partials and helper
+  // failures (e.g. an unknown currency code) all surface when rendering.
+  const run = (fn: () => string) => {
+    try {
+      return fn();
+    } catch (err) {
+      throw new HTTPException(422, {
+        message: `Template "${name}" failed to render: ${(err as Error).message}`,
+      });
+    }
+  };
+  const template = hbs.compile(await file.text());
+  return {
+    name,
+    render: (data) => run(() => template(data)),
+    renderText: (source, data) => run(() => compileText(hbs, source)(data)),
+  };
+}
+
+/* -------------------------------- Requests -------------------------------- */
+export type RenderRequest<T> = {
+  data: T;
+  /** Output name pattern, e.g. "invoice-{{number}}". */
+  filename?: string;
+};
+
+async function readJsonFields(c: any) {
+  const ct = c.req.header("content-type") || "";
+  if (!ct.startsWith("application/json"))
+    throw new HTTPException(415, {
+      message: "Send the template data as application/json.",
+    });
+  const fields = await readRequestFields(c);
+  if (fields.filename !== undefined && typeof fields.filename !== "string")
+    throw new HTTPException(400, { message: "filename must be a string." });
+  return fields;
+}
+
+/** `{ "data": {...} }`, with convert options alongside. */
+export async function readRenderData(
+  c: any
+): Promise<RenderRequest<Record<string, unknown>>> {
+  const { data, filename } = await readJsonFields(c);
+  if (!isRecord(data))
+    throw new HTTPException(400, {
+      message: 'Provide the template data as JSON { "data": { ... } }.',
+    });
+  return { data, filename: filename as string | undefined };
+}
+
+/** `{ "records": [{...}, ...] }`, with convert options alongside. */
+export async function readRenderRecords(
+  c: any
+): Promise<RenderRequest<Record<string, unknown>[]>> {
+  const { records, filename } = await readJsonFields(c);
+  if (!Array.isArray(records) || !records.length || !records.every(isRecord))
+    throw new HTTPException(400, {
+      message:
+        'Provide the template data as JSON { "records": [{ ... }, ...] }.',
+    });
+  if (records.length > RENDER_MAX_RECORDS)
+    throw new HTTPException(400, {
+      message: `Too many records. Max is ${RENDER_MAX_RECORDS} per request.`,
+    });
+  return { data: records, filename: filename as string | undefined };
+}
+
+/* ------------------------------- Rendering -------------------------------- */
+/**
+ * Output file stem for a record: `pattern` (a template string such as
+ * "invoice-{{number}}") rendered against it, reduced to safe characters.
+ */
+export function documentName(
+  template: Template,
+  data: unknown,
+  pattern: string | undefined,
+  fallback: string
+) {
+  const name = pattern
+    ? template
+        .renderText(pattern, data)
+        .replace(/[^\w.-]+/g, "_")
+        .replace(/^[._]+|_+$/g, "")
+        .slice(0, 100)
+    : "";
+  return name || fallback;
+}
+
+/** One HTML document per record, keyed by unique `<name>.html` paths. */
+export function renderRecords(
+  template: Template,
+  records: Record<string, unknown>[],
+  pattern?: string
+): Map<string, Uint8Array> {
+  const entries = new Map<string, Uint8Array>();
+  const width = String(records.length).length;
+  records.forEach((record, i) => {
+    const fallback = `${template.name}-${String(i + 1).padStart(width, "0")}`;
+    const name = documentName(template, record, pattern, fallback);
+    entries.set(
+      uniqueEntryPath(entries, `${name}.html`),
+      new TextEncoder().encode(template.render(record))
+    );
+  });
+  return entries;
+}
@@ -0,0 +1,30 @@
+// src/test-setup.ts
+// Preloaded by `bun test` (see bunfig.toml). Modules read their settings
+// from the environment when first imported, and every test file shares one
+// module registry, so the environment is set here, before any of them.
+import { afterAll } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+const root = mkdtempSync(join(tmpdir(), "brightline-test-"));
+afterAll(() => rmSync(root, { recursive: true, force: true }));
+
+Object.assign(process.env, {
+  WORK_DIR: join(root, "work"),
+  JOBS_DIR: join(root, "jobs"),
+  CACHE_DIR: join(root, "cache"),
+  ACCESS_LOG: "off",
+  // Small archive limits so the ZIP tests can hit them with little data.
+  ZIP_MAX_ENTRIES: "20",
+  ZIP_MAX_UNCOMPRESSED_BYTES: String(4 * 1024 * 1024),
+  API_KEYS: JSON.stringify([
+    { id: "all", key: "all-key", rateLimit: { requests: 0 } },
+    { id: "pdf-only", key: "pdf-key", scopes: ["pdf"] },
+    {
+      id: "limited",
+      key: "limited-key",
+      rateLimit: { requests: 2, windowSecs: 60 },
+    },
+  ]),
+});
@@ -0,0 +1,155 @@
+// src/text-formats.ts
+import { HTTPException } from "hono/http-exception";
+import { Marked } from "marked";
+
+/* -------------------------------- Helpers --------------------------------- */
+const escapeHtml = (s: string) =>
+  s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const span = (cls: string, text: string) =>
+  `<span class="${cls}">${escapeHtml(text)}</span>`;
+
+function decodeText(bytes: Uint8Array) {
+  return new TextDecoder().decode(bytes).replace(/^\uFEFF/, "");
+}
+
+/* -------------------------------- Markdown -------------------------------- */
+// A private instance so options never leak into other users of `marked`.
+const markdown = new Marked({ gfm: true, breaks: false });
+
+/** GitHub-flavoured Markdown (tables, task lists, strikethrough) to HTML. */
+export function markdownToHtml(bytes: Uint8Array): string {
+  return markdown.parse(decodeText(bytes), { async: false });
+}
+
+/* ---------------------------------- CSV ----------------------------------- */
+/** RFC 4180 parsing: quoted fields may hold delimiters, quotes and newlines. */
+export function parseCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === "") quoted = true;
+    else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else field += ch;
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.length > 1 || r[0] !== "");
+}
+
+/** Comma, semicolon or tab — whichever splits the first line most. */
+function sniffDelimiter(text: string) {
+  const first = text.slice(0, text.search(/\r?\n|$/));
+  return [",", ";", "\t"]
+    .map((d) => [d, first.split(d).length] as const)
+    .sort((a, b) => b[1] - a[1])[0][0];
+}
+
+/**
+ * One table with the first row as a <thead>, which wkhtmltopdf repeats at
+ * the top of every page the table spans.
+ */
+export function csvToHtml(bytes: Uint8Array, filename: string): string {
+  const text = decodeText(bytes);
+  const delimiter = /\.tsv$/i.test(filename) ? "\t" : sniffDelimiter(text);
+  const [head = [], ...body] = parseCsv(text, delimiter);
+  const cols = Math.max(head.length, ...body.map((r) => r.length));
+  const cells = (r: string[], tag: "th" | "td") =>
+    Array.from(
+      { length: cols },
+      (_, i) => `<${tag}>${escapeHtml(r[i] ?? "")}</${tag}>`
+    ).join("");
+  return (
+    `<table class="csv"><thead><tr>${cells(head, "th")}</tr></thead><tbody>` +
+    body.map((r) => `<tr>${cells(r, "td")}</tr>`).join("") +
+    `</tbody></table>`
+  );
+}
+
+export const CSV_CSS = `
+  table.csv{font-size:9pt} table.csv th{background:#f0f0f0;text-align:left}
+  table.csv thead{display:table-header-group} table.csv tr{page-break-inside:avoid}
+`;
+
+/* ---------------------------------- JSON ---------------------------------- */
+/** Re-indented and highlighted; invalid JSON is a 422. */
+export function jsonToHtml(bytes: Uint8Array, filename: string): string {
+  let pretty: string;
+  try {
+    pretty = JSON.stringify(JSON.parse(decodeText(bytes)), null, 2);
+  } catch (err) {
+    throw new HTTPException(422, {
+      message: `${filename} is not valid JSON: ${(err as Error).message}`,
+    });
+  }
+  const highlighted = pretty.replace(
+    /("(?:\\.|[^"\\])*")(\s*:)?|\b(true|false|null)\b|(-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)|([^"\w-]+)/g,
+    (m, str, colon, lit, num) =>
+      str
+        ? span(colon ? "k" : "s", str) + (colon ?? "")
+        : lit
+          ? span("l", lit)
+          : num
+            ? span("n", num)
+            : escapeHtml(m)
+  );
+  return `<pre class="code">${highlighted}</pre>`;
+}
+
+/* ---------------------------------- XML ----------------------------------- */
+const XML_TOKEN_RE =
+  /(<!--[\s\S]*?-->)|(<!\[CDATA\[[\s\S]*?\]\]>)|(<[?!][\s\S]*?>)|(<\/?[\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)(\s*\/?>)|([^<]+)|(<)/g;
+
+/** Highlighted as written: the payload's own formatting is kept. */
+export function xmlToHtml(bytes: Uint8Array): string {
+  const highlighted = decodeText(bytes).replace(
+    XML_TOKEN_RE,
+    (m, comment, cdata, decl, open, attrs, close, text) => {
+      if (comment) return span("c", comment);
+      if (cdata || decl) return span("d", cdata ?? decl);
+      if (open)
+        return (
+          span("t", open) +
+          (attrs ?? "").replace(
+            /([\w:.-]+)(\s*=\s*)("[^"]*"|'[^']*')/g,
+            (_: string, name: string, eq: string, value: string) =>
+              span("a", name) + eq + span("s", value)
+          ) +
+          span("t", close)
+        );
+      return escapeHtml(text ?? m);
+    }
+  );
+  return `<pre class="code">${highlighted}</pre>`;
+}
+
+export const CODE_CSS = `
+  pre.code{font-family:"DejaVu Sans Mono","Liberation Mono",monospace;font-size:9pt;
+    white-space:pre-wrap;word-wrap:break-word;line-height:1.4}
+  .code .k{color:#0b5394} .code .s{color:#38761d} .code .n{color:#b45f06}
+  .code .l{color:#741b47;font-weight:bold} .code .t{color:#0b5394}
+  .code .a{color:#7f6000} .code .c{color:#888;font-style:italic} .code .d{color:#666}
+`;
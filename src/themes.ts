@@ -0,0 +1,138 @@
+// src/themes.ts
+import { readdir } from "fs/promises";
+import { HTTPException } from "hono/http-exception";
+import { join } from "path";
+import { StandardFonts } from "pdf-lib";
+
+/* ------------------------------- Constants -------------------------------- */
+// One directory per theme: any *.css files (applied in name order) and
+// optionally header.html / footer.html, repeated on every page.
+export const THEMES_DIR =
+  process.env.THEMES_DIR || join(process.cwd(), "themes");
+
+const THEME_NAME_RE = /^[\w-]+$/;
+
+/* --------------------------------- Types ---------------------------------- */
+export type Theme = {
+  name: string;
+  dir: string;
+  css: string;
+  headerHtml?: string;
+  footerHtml?: string;
+};
+
+/* -------------------------------- Loading --------------------------------- */
+export const isThemeName = (name: string) => THEME_NAME_RE.test(name);
+
+export async function listThemes(): Promise<string[]> {
+  try {
+    const entries = await readdir(THEMES_DIR, { withFileTypes: true });
+    return entries
+      .filter((e) => e.isDirectory() && isThemeName(e.name))
+      .map((e) => e.name)
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Read a theme from disk (no caching, so edits apply to the next request).
+ * Relative url()s in its CSS are made absolute, since the CSS ends up
+ * inlined into documents that live elsewhere. Unknown names are a 400.
+ */
+export async function loadTheme(name: string): Promise<Theme> {
+  const dir = join(THEMES_DIR, name);
+  let files: string[] = [];
+  if (isThemeName(name)) files = await readdir(dir).catch(() => []);
+  if (!files.length)
+    throw new HTTPException(400, { message: `Unknown theme "${name}".` });
+
+  const read = async (file: string) =>
+    files.includes(file) ? Bun.file(join(dir, file)).text() : undefined;
+  const css = await Promise.all(
+    files
+      .filter((f) => f.endsWith(".css"))
+      .sort()
+      .map((f) => Bun.file(join(dir, f)).text())
+  );
+  return {
+    name,
+    dir,
+    css: absolutizeUrls(css.join("\n"), dir),
+    headerHtml: await read("header.html"),
+    footerHtml: await read("footer.html"),
+  };
+}
+
+function absolutizeUrls(css: string, dir: string) {
+  return css.replace(
+    /url\(\s*(["']?)([^"')]+)\1\s*\)/g,
+    (m, quote: string, url: string) =>
+      /^([a-z][\w+.-]*:|\/|#)/i.test(url)
+        ? m
+        : `url(${quote}file://${join(dir, url)}${quote})`
+  );
+}
+
+/* ------------------------------ Stylesheets ------------------------------- */
+/**
+ * Add CSS after the document's own styles (so it wins over them): before
+ * </head>, else before <body>, else in front of everything.
+ */
+export function injectStylesheet(html: string, css: string) {
+  if (!css.trim()) return html;
+  const tag = `<style>${css.replace(/<\/style/gi, "<\\/style")}</style>`;
+  const head = html.search(/<\/head>/i);
+  if (head >= 0) return html.slice(0, head) + tag + html.slice(head);
+  const body = html.search(/<body[\s>]/i);
+  if (body >= 0) return html.slice(0, body) + tag + html.slice(body);
+  return tag + html;
+}
+
+/* ------------------------------ Plain text -------------------------------- */
+const PX_PER_PT = 96 / 72;
+
+/**
+ * The pdf-lib standard font closest to the `body` font-family in `css`,
+ * and its font-size in points. The last matching declaration wins, as in
+ * the cascade; anything not stated is left to the caller.
+ */
+export function textFontFor(css: string): {
+  font?: StandardFonts;
+  size?: number;
+} {
+  let family: string | undefined;
+  let size: string | undefined;
+  for (const [, decls] of css.matchAll(
+    /(?:^|[\s,}])(?:body|html)\s*(?:,[^{]*)?\{([^}]*)\}/gi
+  )) {
+    family = /font-family\s*:\s*([^;]+)/i.exec(decls)?.[1] ?? family;
+    size = /font-size\s*:\s*([^;]+)/i.exec(decls)?.[1] ?? size;
+  }
+
+  let font: StandardFonts | undefined;
+  // The first generic or well-known family in the stack decides.
+  for (const f of (family ?? "").split(",")) {
+    const name = f
+      .trim()
+      .replace(/^["']|["']$/g, "")
+      .toLowerCase();
+    if (/mono|courier|consolas|menlo/.test(name)) font = StandardFonts.Courier;
+    else if (/sans|arial|helvetica|verdana|inter|roboto/.test(name))
+      font = StandardFonts.Helvetica;
+    else if (/serif|times|georgia|garamond|cambria/.test(name))
+      font = StandardFonts.TimesRoman;
+    if (font) break;
+  }
+
+  const m = /^\s*(\d+(?:\.\d+)?)(pt|px)\s*(?:!important)?\s*$/i.exec(
+    size ?? ""
+  );
+  const pt = m
+    ? m[2].toLowerCase() === "px"
+      ? Number(m[1]) / PX_PER_PT
+      : Number(m[1])
+    : undefined;
+  return { font, size: pt && pt >= 4 && pt <= 72 ? pt : undefined };
+}
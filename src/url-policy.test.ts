@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import { assertUrlAllowed, isPrivateAddress } from "./url-policy";
+
+describe("isPrivateAddress", () => {
+  test.each([
+    "10.1.2.3",
+    "127.0.0.1",
+    "169.254.169.254",
+    "172.16.0.1",
+    "192.168.1.1",
+    "100.64.0.1",
+    "192.0.2.10",
+    "198.18.0.1",
+    "198.19.255.255",
+    "198.51.100.7",
+    "203.0.113.200",
+    "0.0.0.0",
+    "224.0.0.1",
+    "255.255.255.255",
+    "::",
+    "::1",
+    "fc00::1",
+    "fd12:3456::1",
+    "fe80::1",
+    "ff02::1",
+    "::ffff:127.0.0.1",
+    "::ffff:a9fe:a9fe",
+    "64:ff9b::10.0.0.1",
+    "::10.0.0.1",
+    "::7f00:1",
+    "2002:a9fe:a9fe::1",
+    "2002:c0a8:101::",
+    "2002:cb00:7101::",
+    // Teredo: server 65.54.227.120; client 127.0.0.1, then 10.0.0.1.
+    "2001:0:4136:e378:8000:63bf:80ff:fffe",
+    "2001:0:4136:e378:8000:63bf:f5ff:fffe",
+    // Teredo with a private server address.
+    "2001:0:a00:1:8000:63bf:f7f7:f7f7",
+    "fe80::1%eth0",
+    "not-an-ip",
+  ])("%s is private", (ip) => {
+    expect(isPrivateAddress(ip)).toBe(true);
+  });
+
+  test.each([
+    "8.8.8.8",
+    "1.1.1.1",
+    "172.32.0.1",
+    "2001:4860:4860::8888",
+    "::ffff:8.8.8.8",
+    "64:ff9b::8.8.8.8",
+    "2002:808:808::1",
+    "198.20.0.1",
+    "203.0.114.1",
+    // Teredo: server 65.54.227.120, client 8.8.8.8.
+    "2001:0:4136:e378:8000:63bf:f7f7:f7f7",
+    "2001:db9::1",
+  ])("%s is public", (ip) => {
+    expect(isPrivateAddress(ip)).toBe(false);
+  });
+});
+
+describe("assertUrlAllowed", () => {
+  const status = (url: string) =>
+    assertUrlAllowed(new URL(url)).then(
+      () => 200,
+      (err) => err.status
+    );
+
+  test("refuses private IP literals with 403", async () => {
+    expect(await status("http://127.0.0.1/")).toBe(403);
+    expect(await status("http://[::1]:8080/")).toBe(403);
+    expect(await status("http://[::ffff:10.0.0.1]/")).toBe(403);
+  });
+
+  test("refuses other schemes with 400", async () => {
+    expect(await status("ftp://8.8.8.8/")).toBe(400);
+  });
+
+  test("returns the address of a public IP literal", async () => {
+    expect(await assertUrlAllowed(new URL("https://8.8.8.8/"))).toEqual([
+      "8.8.8.8",
+    ]);
+  });
+});
@@ -0,0 +1,240 @@
+// src/url-policy.ts
+import { lookup } from "dns/promises";
+import { HTTPException } from "hono/http-exception";
+import { isIP } from "net";
+
+/* ------------------------------- Constants -------------------------------- */
+// Comma-separated host patterns; "*.example.com" also matches subdomains.
+// An empty allowlist allows every public host.
+export const URL_ALLOW_HOSTS = parseHostList(process.env.URL_ALLOW_HOSTS);
+export const URL_DENY_HOSTS = parseHostList(process.env.URL_DENY_HOSTS);
+// Only for trusted deployments that need to fetch from their own network.
+export const URL_ALLOW_PRIVATE = /^(1|true|yes)$/i.test(
+  process.env.URL_ALLOW_PRIVATE || ""
+);
+export const URL_MAX_REDIRECTS = Number(process.env.URL_MAX_REDIRECTS || 5);
+export const URL_FETCH_TIMEOUT_MS = Number(
+  process.env.URL_FETCH_TIMEOUT_MS || 30_000
+);
+
+function parseHostList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((h) => h.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/* ---------------------------- Address ranges ------------------------------ */
+// [network, prefix length] pairs that must never be fetched.
+const BLOCKED_V4: [string, number][] = [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8], // private
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8], // loopback
+  ["169.254.0.0", 16], // link-local, cloud metadata
+  ["172.16.0.0", 12], // private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.0.2.0", 24], // TEST-NET-1, documentation
+  ["192.168.0.0", 16], // private
+  ["198.18.0.0", 15], // benchmarking
+  ["198.51.100.0", 24], // TEST-NET-2, documentation
+  ["203.0.113.0", 24], // TEST-NET-3, documentation
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved, broadcast
+];
+
+function v4ToInt(ip: string) {
+  return ip.split(".").reduce((n, octet) => n * 256 + Number(octet), 0);
+}
+
+function inV4Range(ip: string, [net, bits]: [string, number]) {
+  const size = 2 ** (32 - bits);
+  return Math.floor(v4ToInt(ip) / size) === Math.floor(v4ToInt(net) / size);
+}
+
+/** Expand an IPv6 address into its eight 16-bit groups. */
+function v6Groups(ip: string): number[] {
+  let addr = ip.toLowerCase().split("%")[0];
+  // Trailing dotted quad, as in ::ffff:10.0.0.1
+  const quad = /(\d+\.\d+\.\d+\.\d+)$/.exec(addr);
+  if (quad) {
+    const n = v4ToInt(quad[1]);
+    addr =
+      addr.slice(0, -quad[1].length) +
+      `${(n >>> 16).toString(16)}:${(n & 0xffff).toString(16)}`;
+  }
+  const [head, tail] = addr.includes("::") ? addr.split("::") : [addr, null];
+  const parse = (s: string) =>
+    s ? s.split(":").map((g) => parseInt(g, 16)) : [];
+  const h = parse(head);
+  const t = tail === null ? [] : parse(tail);
+  return [...h, ...Array(8 - h.length - t.length).fill(0), ...t];
+}
+
+/** True for loopback, private, link-local and other non-public addresses. */
+export function isPrivateAddress(ip: string): boolean {
+  const family = isIP(ip);
+  if (family === 4) return BLOCKED_V4.some((range) => inV4Range(ip, range));
+  if (family !== 6) return true;
+
+  const g = v6Groups(ip);
+  // The IPv4 address held in two groups, e.g. g[6] and g[7] of ::ffff:a.b.c.d.
+  const v4At = (i: number, mask = 0) => {
+    const [hi, lo] = [g[i] ^ mask, g[i + 1] ^ mask];
+    return [hi >> 8, hi & 255, lo >> 8, lo & 255].join(".");
+  };
+  if (g.every((x) => x === 0)) return true; // ::
+  if (g.slice(0, 7).every((x) => x === 0) && g[7] === 1) return true; // ::1
+  // IPv4-compatible (::a.b.c.d), IPv4-mapped (::ffff:0:0/96) and NAT64
+  // (64:ff9b::/96) end in an IPv4 address; 6to4 (2002::/16) starts with one.
+  // Teredo (2001::/32) holds its server's, then its client's with every bit
+  // flipped.
+  if (g.slice(0, 5).every((x) => x === 0) && (g[5] === 0 || g[5] === 0xffff))
+    return isPrivateAddress(v4At(6));
+  if (g[0] === 0x64 && g[1] === 0xff9b && g.slice(2, 6).every((x) => x === 0))
+    return isPrivateAddress(v4At(6));
+  if (g[0] === 0x2002) return isPrivateAddress(v4At(1));
+  if (g[0] === 0x2001 && g[1] === 0)
+    return isPrivateAddress(v4At(2)) || isPrivateAddress(v4At(6, 0xffff));
+  return (
+    (g[0] & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (g[0] & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (g[0] & 0xff00) === 0xff00 // multicast ff00::/8
+  );
+}
+
+/* ------------------------------ Host policy ------------------------------- */
+export function parseUrl(urlStr: string): URL {
+  try {
+    return new URL(urlStr);
+  } catch {
+    throw new HTTPException(400, { message: "Invalid URL." });
+  }
+}
+
+export function hostMatches(host: string, pattern: string) {
+  if (pattern.startsWith("*."))
+    return host === pattern.slice(2) || host.endsWith(pattern.slice(1));
+  return host === pattern;
+}
+
+/**
+ * Check a URL against the scheme, allow/deny lists and — after resolving its
+ * host — the private address ranges, returning the addresses it resolved
+ * to. Throws 400 for malformed URLs and 403 for anything the policy refuses.
+ *
+ * fetch resolves the host again, so a host that changes its answer in
+ * between (DNS rebinding) is not fully covered there; the egress proxy
+ * connects to the returned addresses directly and is.
+ */
+export async function assertUrlAllowed(url: URL): Promise<string[]> {
+  if (url.protocol !== "http:" && url.protocol !== "https:")
+    throw new HTTPException(400, {
+      message: "Only http(s) URLs are supported.",
+    });
+
+  const host = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (URL_DENY_HOSTS.some((p) => hostMatches(host, p)))
+    throw new HTTPException(403, { message: `Host "${host}" is denied.` });
+  if (
+    URL_ALLOW_HOSTS.length &&
+    !URL_ALLOW_HOSTS.some((p) => hostMatches(host, p))
+  )
+    throw new HTTPException(403, {
+      message: `Host "${host}" is not on the allowlist.`,
+    });
+
+  let addresses: string[];
+  try {
+    addresses = isIP(host)
+      ? [host]
+      : (await lookup(host, { all: true, verbatim: true })).map(
+          (a) => a.address
+        );
+  } catch {
+    throw new HTTPException(502, {
+      message: `Could not resolve host "${host}".`,
+    });
+  }
+  if (
+    !addresses.length ||
+    (!URL_ALLOW_PRIVATE && addresses.some(isPrivateAddress))
+  )
+    throw new HTTPException(403, {
+      message: `Host "${host}" resolves to a private or reserved address.`,
+    });
+  return addresses;
+}
+
+/* ------------------------------ Safe fetch -------------------------------- */
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+export type PolicyFetchInit = {
+  headers?: Record<string, string>;
+  /** GET by default. */
+  method?: string;
+  body?: string;
+  /** Defaults to URL_FETCH_TIMEOUT_MS. */
+  timeoutMs?: number;
+};
+
+/**
+ * Fetch a URL, following redirects by hand so every hop is re-checked
+ * against the policy. As with fetch, 307/308 repeat the request and other
+ * redirects continue as a GET. The returned signal stays armed until the
+ * timeout so it also bounds reading the body.
+ */
+export async function fetchWithPolicy(
+  urlStr: string,
+  init: PolicyFetchInit = {}
+): Promise<{ res: Response; url: URL; signal: AbortSignal }> {
+  const signal = AbortSignal.timeout(init.timeoutMs ?? URL_FETCH_TIMEOUT_MS);
+  let url = parseUrl(urlStr);
+
+  for (let hop = 0; ; hop++) {
+    await assertUrlAllowed(url);
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        method: init.method,
+        headers: init.headers,
+        body: init.body,
+        redirect: "manual",
+        signal,
+      });
+    } catch (err) {
+      throw fetchError(err);
+    }
+
+    const location = res.headers.get("location");
+    if (!REDIRECT_STATUSES.has(res.status) || !location)
+      return { res, url, signal };
+
+    res.body?.cancel().catch(() => {});
+    if (hop >= URL_MAX_REDIRECTS)
+      throw new HTTPException(502, {
+        message: `Too many redirects (max ${URL_MAX_REDIRECTS}).`,
+      });
+    const next = new URL(location, url);
+    // Never forward caller-supplied headers to a different origin.
+    if (next.origin !== url.origin) init = { ...init, headers: undefined };
+    if (res.status !== 307 && res.status !== 308)
+      init = { ...init, method: undefined, body: undefined };
+    url = next;
+  }
+}
+
+/** Map a fetch/body-read failure to a gateway error. */
+export function fetchError(err: unknown): HTTPException {
+  if (err instanceof HTTPException) return err;
+  const name = (err as Error)?.name;
+  if (name === "TimeoutError" || name === "AbortError")
+    return new HTTPException(504, {
+      message: `Fetching the URL timed out after ${Math.ceil(
+        URL_FETCH_TIMEOUT_MS / 1000
+      )}s.`,
+    });
+  return new HTTPException(502, {
+    message: `Failed to fetch URL: ${(err as Error)?.message || "network error"}.`,
+  });
+}
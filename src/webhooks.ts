@@ -0,0 +1,208 @@
+// src/webhooks.ts
+import { createHmac } from "crypto";
+import { HTTPException } from "hono/http-exception";
+import { readRequestFields } from "./convert";
+import { LogSeverity, currentRequestId, logJson } from "./logging";
+import { countPdfPages } from "./pdf-tools";
+import { assertUrlAllowed, fetchWithPolicy, parseUrl } from "./url-policy";
+
+/* ------------------------------- Constants -------------------------------- */
+export const WEBHOOK_MAX_ATTEMPTS = Number(
+  process.env.WEBHOOK_MAX_ATTEMPTS || 5
+);
+export const WEBHOOK_BACKOFF_MS = Number(
+  process.env.WEBHOOK_BACKOFF_MS || 1000
+);
+export const WEBHOOK_TIMEOUT_MS = Number(
+  process.env.WEBHOOK_TIMEOUT_MS || 10_000
+);
+
+/* --------------------------------- Types ---------------------------------- */
+export type CallbackTarget = { url: string; secret: string | null };
+
+export type CallbackPayload = {
+  event: "conversion.finished";
+  status: "succeeded" | "failed";
+  jobId: string | null;
+  filename: string | null;
+  mime: string | null;
+  size: number | null;
+  pages: number | null;
+  downloadUrl: string | null;
+  error: { status: number; message: string } | null;
+  finishedAt: string;
+};
+
+/* ---------------------------- Request helpers ----------------------------- */
+/**
+ * Reads `callbackUrl` / `callbackSecret` from the query, JSON body or form.
+ * The URL must pass the same policy as fetched documents (no private or
+ * denied hosts). The secret falls back to WEBHOOK_SECRET so callers needn't
+ * send one.
+ */
+export async function readCallback(c: any): Promise<CallbackTarget | null> {
+  const fields = await readRequestFields(c);
+  const url = fields.callbackUrl;
+  if (url === undefined || url === "") return null;
+  if (typeof url !== "string" || !/^https?:\/\//i.test(url)) {
+    throw new HTTPException(400, {
+      message: "callbackUrl must be an http(s) URL.",
+    });
+  }
+  try {
+    await assertUrlAllowed(parseUrl(url));
+  } catch (err) {
+    if (!(err instanceof HTTPException)) throw err;
+    throw new HTTPException(400, { message: `callbackUrl: ${err.message}` });
+  }
+  const secret =
+    typeof fields.callbackSecret === "string" && fields.callbackSecret
+      ? fields.callbackSecret
+      : process.env.WEBHOOK_SECRET || null;
+  return { url, secret };
+}
+
+/** Public origin used to build download links in callback payloads. */
+export function publicBaseUrl(c: any): string {
+  return (process.env.PUBLIC_BASE_URL || new URL(c.req.url).origin).replace(
+    /\/+$/,
+    ""
+  );
+}
+
+/* ------------------------------ Payload info ------------------------------ */
+export async function describeOutput(
+  path: string,
+  mime: string
+): Promise<{ size: number; pages: number | null }> {
+  const f = Bun.file(path);
+  const pages =
+    mime === "application/pdf"
+      ? await countPdfPages(new Uint8Array(await f.arrayBuffer()))
+      : null;
+  return { size: f.size, pages };
+}
+
+/* ------------------------------- Delivery --------------------------------- */
+/**
+ * Signature over `${timestamp}.${body}`, sent as `X-Signature: sha256=<hex>`
+ * alongside `X-Signature-Timestamp` so receivers can reject replays.
+ */
+export function signPayload(body: string, secret: string, timestamp: string) {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+const isRetryable = (status: number) =>
+  status >= 500 || status === 408 || status === 429;
+
+function logAttempt(
+  severity: LogSeverity,
+  attempt: number,
+  target: CallbackTarget,
+  payload: CallbackPayload,
+  result: { status?: number; error?: string }
+) {
+  logJson(
+    severity,
+    `Webhook attempt ${attempt}/${WEBHOOK_MAX_ATTEMPTS} to ${target.url}`,
+    {
+      requestId: currentRequestId(),
+      jobId: payload.jobId ?? undefined,
+      webhook: { url: target.url, attempt, ...result },
+    }
+  );
+}
+
+/**
+ * POST the payload, retrying network errors, 5xx, 408 and 429 with
+ * exponential backoff. Every attempt and redirect is re-checked against
+ * the URL policy. Resolves to whether the receiver accepted it.
+ */
+export async function deliverCallback(
+  target: CallbackTarget,
+  payload: CallbackPayload
+): Promise<boolean> {
+  const body = JSON.stringify(payload);
+  for (let attempt = 1; attempt <= WEBHOOK_MAX_ATTEMPTS; attempt++) {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "User-Agent": "brightline-api-webhook",
+      "X-Signature-Timestamp": timestamp,
+    };
+    if (target.secret)
+      headers["X-Signature"] =
+        "sha256=" + signPayload(body, target.secret, timestamp);
+
+    let retry = true;
+    try {
+      const { res } = await fetchWithPolicy(target.url, {
+        method: "POST",
+        headers,
+        body,
+        timeoutMs: WEBHOOK_TIMEOUT_MS,
+      });
+      res.body?.cancel().catch(() => {});
+      logAttempt(res.ok ? "INFO" : "WARNING", attempt, target, payload, {
+        status: res.status,
+      });
+      if (res.ok) return true;
+      retry = isRetryable(res.status);
+    } catch (err) {
+      logAttempt("WARNING", attempt, target, payload, {
+        error: (err as Error).message,
+      });
+      // A target the policy now refuses (e.g. re-resolved to a private
+      // address) won't change on retry.
+      retry = !(err instanceof HTTPException && err.status < 500);
+    }
+    if (!retry || attempt === WEBHOOK_MAX_ATTEMPTS) break;
+    await Bun.sleep(WEBHOOK_BACKOFF_MS * 2 ** (attempt - 1));
+  }
+  logJson("ERROR", `Webhook to ${target.url} failed; giving up`, {
+    requestId: currentRequestId(),
+    jobId: payload.jobId ?? undefined,
+  });
+  return false;
+}
+
+/** Build the payload for a finished (or failed) conversion and deliver it. */
+export async function notifyCallback(
+  target: CallbackTarget,
+  info: {
+    jobId?: string;
+    output?: { path: string; filename: string; mime: string };
+    downloadUrl?: string;
+    error?: { status: number; message: string };
+  }
+) {
+  try {
+    const described = info.output
+      ? await describeOutput(info.output.path, info.output.mime)
+      : null;
+    await deliverCallback(target, {
+      event: "conversion.finished",
+      status: info.error ? "failed" : "succeeded",
+      jobId: info.jobId ?? null,
+      filename: info.output?.filename ?? null,
+      mime: info.output?.mime ?? null,
+      size: described?.size ?? null,
+      pages: described?.pages ?? null,
+      downloadUrl: info.error ? null : (info.downloadUrl ?? null),
+      error: info.error ?? null,
+      finishedAt: new Date().toISOString(),
+    });
+  } catch (err) {
+    logJson(
+      "ERROR",
+      `Webhook to ${target.url} failed: ${(err as Error).message}`,
+      {
+        requestId: currentRequestId(),
+        jobId: info.jobId,
+        stack: (err as Error).stack,
+      }
+    );
+  }
+}
@@ -0,0 +1,163 @@
+// src/workspace.ts
+import { AsyncLocalStorage } from "async_hooks";
+import { mkdirSync } from "fs";
+import { readdir, rm, stat } from "fs/promises";
+import { tmpdir } from "os";
+import { basename, join } from "path";
+import { logJson } from "./logging";
+
+/* ------------------------------- Constants -------------------------------- */
+// Scratch files live in their own directory so the sweeper never touches
+// anything else in the system temp dir.
+export const WORK_DIR =
+  process.env.WORK_DIR || join(tmpdir(), "brightline-work");
+export const TEMP_TTL_MS = Number(process.env.TEMP_TTL_MS || 60 * 60 * 1000);
+export const SWEEP_INTERVAL_MS = Number(
+  process.env.SWEEP_INTERVAL_MS || 10 * 60 * 1000
+);
+
+mkdirSync(WORK_DIR, { recursive: true });
+
+/* ------------------------------- Workspace -------------------------------- */
+// Paths owned by a live workspace; the sweeper leaves these alone.
+const liveFiles = new Set<string>();
+
+/** Every temp file created while it is active; removed by `cleanup()`. */
+export class TempWorkspace {
+  private files = new Set<string>();
+
+  track(path: string) {
+    this.files.add(path);
+    liveFiles.add(path);
+    return path;
+  }
+
+  async cleanup() {
+    const files = [...this.files];
+    this.files.clear();
+    await Promise.all(
+      files.map(async (f) => {
+        liveFiles.delete(f);
+        await rm(f, { force: true }).catch(() => {});
+      })
+    );
+  }
+}
+
+const current = new AsyncLocalStorage<TempWorkspace>();
+
+export function runInWorkspace<T>(ws: TempWorkspace, fn: () => Promise<T>) {
+  return current.run(ws, fn);
+}
+
+/** Unique scratch path, tracked by the active workspace if there is one. */
+export function tempPath(name: string): string {
+  const path = join(
+    WORK_DIR,
+    `${Date.now()}-${Math.random().toString(36).slice(2)}-${basename(name)}`
+  );
+  return current.getStore()?.track(path) ?? path;
+}
+
+/**
+ * Re-wrap a response so the workspace is cleaned up once the body has been
+ * fully sent, or as soon as the client goes away.
+ */
+export function releaseAfterBody(res: Response, ws: TempWorkspace): Response {
+  if (!res.body) {
+    ws.cleanup();
+    return res;
+  }
+  const reader = res.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          ws.cleanup();
+        } else controller.enqueue(value);
+      } catch (err) {
+        controller.error(err);
+        ws.cleanup();
+      }
+    },
+    async cancel(reason) {
+      await reader.cancel(reason).catch(() => {});
+      ws.cleanup();
+    },
+  });
+  return new Response(body, {
+    status: res.status,
+    statusText: res.statusText,
+    headers: res.headers,
+  });
+}
+
+/* -------------------------------- Sweeper --------------------------------- */
+export type SweepStats = {
+  lastRunAt: string | null;
+  lastFiles: number;
+  lastBytes: number;
+  totalFiles: number;
+  totalBytes: number;
+};
+
+const sweepStats: SweepStats = {
+  lastRunAt: null,
+  lastFiles: 0,
+  lastBytes: 0,
+  totalFiles: 0,
+  totalBytes: 0,
+};
+
+export function getSweepStats(): SweepStats {
+  return { ...sweepStats };
+}
+
+// Other cleanup run on every sweep, e.g. expiring finished jobs.
+const sweepTasks: (() => Promise<unknown>)[] = [];
+
+export function registerSweepTask(task: () => Promise<unknown>) {
+  sweepTasks.push(task);
+}
+
+/** Remove orphaned scratch files older than `ttlMs`. */
+export async function sweepTempFiles(ttlMs = TEMP_TTL_MS) {
+  const cutoff = Date.now() - ttlMs;
+  let files = 0;
+  let bytes = 0;
+  for (const name of await readdir(WORK_DIR).catch(() => [])) {
+    const path = join(WORK_DIR, name);
+    if (liveFiles.has(path)) continue;
+    const st = await stat(path).catch(() => null);
+    if (!st || st.mtimeMs > cutoff) continue;
+    await rm(path, { recursive: true, force: true }).catch(() => {});
+    files++;
+    bytes += st.size;
+  }
+
+  sweepStats.lastRunAt = new Date().toISOString();
+  sweepStats.lastFiles = files;
+  sweepStats.lastBytes = bytes;
+  sweepStats.totalFiles += files;
+  sweepStats.totalBytes += bytes;
+  if (files)
+    logJson("INFO", `Removed ${files} orphaned file(s), ${bytes} bytes`, {
+      sweeper: { files, bytes },
+    });
+  return { files, bytes };
+}
+
+export function startTempSweeper(intervalMs = SWEEP_INTERVAL_MS) {
+  const timer = setInterval(() => {
+    for (const task of [() => sweepTempFiles(), ...sweepTasks])
+      task().catch((err) =>
+        logJson("ERROR", `Sweep failed: ${(err as Error).message}`, {
+          stack: (err as Error).stack,
+        })
+      );
+  }, intervalMs);
+  timer.unref?.();
+  return timer;
+}
@@ -0,0 +1,94 @@
+// src/xml.ts
+import { HTTPException } from "hono/http-exception";
+
+/* --------------------------------- Types ---------------------------------- */
+export type XmlNode = XmlElement | string;
+
+export type XmlElement = {
+  /** Qualified name as written, e.g. "text:p". */
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlNode[];
+};
+
+/* -------------------------------- Parsing --------------------------------- */
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+export function decodeXmlEntities(s: string) {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (m, e: string) => {
+    if (e[0] !== "#") return XML_ENTITIES[e] ?? m;
+    const code =
+      e[1] === "x" || e[1] === "X" ? parseInt(e.slice(2), 16) : +e.slice(1);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : m;
+  });
+}
+
+const TOKEN_RE =
+  /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<[?!][\s\S]*?>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+const ATTR_RE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Parse a well-formed document into an element tree. Enough for package
+ * formats (ODF, EPUB): no DTDs or custom entities, and namespaces are left
+ * as written, prefixes included.
+ */
+export function parseXml(text: string, what = "XML"): XmlElement {
+  const root: XmlElement = { name: "#document", attrs: {}, children: [] };
+  const stack = [root];
+  for (const m of text.matchAll(TOKEN_RE)) {
+    const [, cdata, close, open, attrs, selfClose, chars] = m;
+    const top = stack[stack.length - 1];
+    if (cdata !== undefined) top.children.push(cdata);
+    else if (chars !== undefined) top.children.push(decodeXmlEntities(chars));
+    else if (close) {
+      if (stack.length < 2 || top.name !== close)
+        throw new HTTPException(422, { message: `${what} is malformed.` });
+      stack.pop();
+    } else if (open) {
+      const el: XmlElement = { name: open, attrs: {}, children: [] };
+      for (const [, k, v1, v2] of (attrs ?? "").matchAll(ATTR_RE))
+        el.attrs[k] = decodeXmlEntities(v1 ?? v2);
+      top.children.push(el);
+      if (!selfClose) stack.push(el);
+    }
+  }
+  if (stack.length > 1)
+    throw new HTTPException(422, { message: `${what} is malformed.` });
+  return root;
+}
+
+/* -------------------------------- Queries --------------------------------- */
+/** Name without its namespace prefix. */
+export const localName = (name: string) => name.slice(name.indexOf(":") + 1);
+
+export function childElements(el: XmlElement, name?: string): XmlElement[] {
+  return el.children.filter(
+    (c): c is XmlElement =>
+      typeof c !== "string" && (!name || localName(c.name) === name)
+  );
+}
+
+/** First descendant with the given local name, depth-first. */
+export function findElement(
+  el: XmlElement,
+  name: string
+): XmlElement | undefined {
+  for (const c of childElements(el)) {
+    if (localName(c.name) === name) return c;
+    const found = findElement(c, name);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+export function textContent(el: XmlElement): string {
+  return el.children
+    .map((c) => (typeof c === "string" ? c : textContent(c)))
+    .join("");
+}